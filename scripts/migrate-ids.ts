@@ -0,0 +1,68 @@
+#!/usr/bin/env tsx
+
+/**
+ * Rewrite event IDs from the former 32-bit hash to the current scheme
+ * (src/lib/ids.ts), in SQLite or Supabase, whichever is configured.
+ * Old IDs are kept in event_aliases so existing links still resolve.
+ *
+ * IDs are recomputed from the stored source URL (or URL + title, for
+ * events without a page of their own). IDs built from other keys, such as
+ * iCalendar UIDs, can't be recomputed here; those rows are carried over
+ * the next time their source is scraped.
+ *
+ *   npm run migrate-ids              # Migrate
+ *   npm run migrate-ids -- --dry-run # Only report what would change
+ */
+
+import { getEventIdentitiesAsync, getDatabaseMode, renameEventAsync } from "../src/lib/db";
+import { isStableEventId, legacyEventId, sourceKey, stableEventId } from "../src/lib/ids";
+import { scrapers } from "../src/scrapers";
+
+async function migrate() {
+  const dryRun = process.argv.includes("--dry-run");
+  console.log(`Migrating event IDs (${getDatabaseMode()}${dryRun ? ", dry run" : ""})...`);
+
+  // IDs are keyed by the scraper's registry key, which an iCalendar feed's
+  // source name doesn't spell
+  const keys = new Map(scrapers.map((s) => [s.sourceName, s.key]));
+
+  const identities = await getEventIdentitiesAsync();
+  let migrated = 0;
+  let current = 0;
+  const unrecognized: string[] = [];
+
+  for (const identity of identities) {
+    if (isStableEventId(identity.id)) {
+      current++;
+      continue;
+    }
+
+    const prefix = identity.id.slice(0, identity.id.lastIndexOf("-"));
+    const unique = [identity.source_url, identity.source_url + identity.title_ja].find(
+      (candidate) => legacyEventId(prefix, candidate) === identity.id
+    );
+    if (!prefix || unique === undefined) {
+      unrecognized.push(identity.id);
+      continue;
+    }
+
+    const newId = stableEventId(prefix, keys.get(identity.source_name) ?? sourceKey(identity.source_name), unique);
+    console.log(`  ${identity.id} -> ${newId}${identity.quarantined ? " (quarantined)" : ""}`);
+    if (!dryRun) {
+      await renameEventAsync(identity.id, newId);
+    }
+    migrated++;
+  }
+
+  console.log(`\n${dryRun ? "Would migrate" : "Migrated"} ${migrated}, already current ${current}, unrecognized ${unrecognized.length}`);
+  if (unrecognized.length > 0) {
+    console.log("Unrecognized IDs are kept; scraped events carry them over on their next run:");
+    unrecognized.slice(0, 20).forEach((id) => console.log(`  ${id}`));
+    if (unrecognized.length > 20) console.log(`  ... and ${unrecognized.length - 20} more`);
+  }
+}
+
+migrate().catch((error) => {
+  console.error(error);
+  process.exitCode = 1;
+});
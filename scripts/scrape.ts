@@ -1,41 +1,378 @@
 #!/usr/bin/env tsx
 
-import { runAllScrapers, runScraper, listScrapers } from "../src/scrapers";
+import {
+  runAllScrapers,
+  runScraper,
+  listScrapers,
+  isFetchMode,
+  summarizeErrors,
+  formatError,
+  fixQuarantinedEvent,
+  discardQuarantinedEvent,
+  reclassifyEvents,
+  FIXABLE_FIELDS,
+} from "../src/scrapers";
+import type { ScraperError, QuarantineFix, ChangeSummary } from "../src/scrapers";
+import type { RunOptions } from "../src/scrapers";
+import {
+  createCategoryRuleAsync,
+  deleteCategoryRuleAsync,
+  getCategoriesAsync,
+  getCategoryRuleAsync,
+  getCategoryRulesAsync,
+  getQuarantineAsync,
+  getQuarantineEntryAsync,
+  isQuarantineStatus,
+  updateCategoryRuleAsync,
+  QUARANTINE_STATUSES,
+} from "../src/lib/db";
+import type { FieldChange, QuarantineEntry } from "../src/lib/db";
+import { validateRule } from "../src/lib/categories";
+import type { CategoryNode, CategoryRule, CategoryRuleInput } from "../src/lib/categories";
+
+// Parse --flag and --flag=value options, leaving positional arguments
+function parseArgs(argv: string[]): { positional: string[]; flags: Record<string, string | true> } {
+  const positional: string[] = [];
+  const flags: Record<string, string | true> = {};
+
+  for (const arg of argv) {
+    if (arg.startsWith("--")) {
+      const [name, value] = arg.slice(2).split("=", 2);
+      flags[name] = value ?? true;
+    } else {
+      positional.push(arg);
+    }
+  }
+
+  return { positional, flags };
+}
+
+function formatErrorSummary(errors: ScraperError[]): string {
+  return Object.entries(summarizeErrors(errors))
+    .map(([kind, count]) => `${kind}: ${count}`)
+    .join(", ");
+}
+
+// "date_start: 2025-01-15 → 2025-01-22"; showtime lists are only counted
+function formatChange(change: FieldChange): string {
+  const format = (value: unknown) => {
+    if (Array.isArray(value) && change.field === "performances") return `${value.length} showtimes`;
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+  };
+  return `${change.field}: ${format(change.old)} → ${format(change.new)}`;
+}
+
+function printChanges(changes: ChangeSummary, indent: string): void {
+  const fields = Object.entries(changes.fields).map(([field, count]) => `${field}: ${count}`);
+  console.log(`${indent}Changed: ${changes.events} events${fields.length > 0 ? ` (${fields.join(", ")})` : ""}`);
+  for (const example of changes.examples) {
+    console.log(`${indent}  ${example.event_id}`);
+    example.changes.forEach((change) => console.log(`${indent}    ${formatChange(change)}`));
+  }
+}
+
+function printQuarantineEntry(entry: QuarantineEntry): void {
+  const { event } = entry;
+  console.log(`  ${entry.event_id} [${entry.source}, ${entry.status}] ${event.title_ja}`);
+  console.log(`    ${entry.reasons.join("; ")}`);
+  console.log(`    date: ${event.date_start ?? "?"}${event.date_end ? ` - ${event.date_end}` : ""} @ ${event.venue_name || "?"}`);
+  if (entry.raw_text) {
+    console.log(`    raw: ${entry.raw_text.slice(0, 200)}`);
+  }
+  console.log(`    ${event.source_url}`);
+}
+
+// npm run scrape quarantine [list|show <id>|fix <id> --date_start=...|discard <id>]
+async function quarantineCommand(args: string[], flags: Record<string, string | true>): Promise<void> {
+  const [action = "list", id] = args;
+
+  if (action === "list") {
+    const status = typeof flags.status === "string" ? flags.status : "pending";
+    if (!isQuarantineStatus(status)) {
+      console.error(`Unknown --status "${status}" (expected ${QUARANTINE_STATUSES.join(", ")})`);
+      process.exitCode = 1;
+      return;
+    }
+    const entries = await getQuarantineAsync({
+      source: typeof flags.source === "string" ? flags.source : undefined,
+      status,
+      limit: typeof flags.limit === "string" ? parseInt(flags.limit, 10) || 100 : 100,
+    });
+    console.log(`\nQuarantined events: ${entries.length}`);
+    entries.forEach(printQuarantineEntry);
+    return;
+  }
+
+  if (!id) {
+    console.error(`Usage: npm run scrape quarantine ${action} <event id>`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (action === "show") {
+    const entry = await getQuarantineEntryAsync(id);
+    if (!entry) {
+      console.error(`No quarantined event ${id}`);
+      process.exitCode = 1;
+      return;
+    }
+    printQuarantineEntry(entry);
+    if (entry.fixes) {
+      console.log(`    fixes: ${JSON.stringify(entry.fixes)}`);
+    }
+    return;
+  }
+
+  if (action === "fix") {
+    const fix: QuarantineFix = {};
+    for (const field of FIXABLE_FIELDS) {
+      if (typeof flags[field] === "string") fix[field] = flags[field] as string;
+    }
+    if (Object.keys(fix).length === 0) {
+      console.error(`Pass at least one field to fix: ${FIXABLE_FIELDS.map((f) => `--${f}=`).join(" ")}`);
+      process.exitCode = 1;
+      return;
+    }
+
+    const result = await fixQuarantinedEvent(id, fix);
+    if (!result) {
+      console.error(`No quarantined event ${id}`);
+      process.exitCode = 1;
+    } else if ("reasons" in result) {
+      console.error(`Still invalid: ${result.reasons.join("; ")}`);
+      process.exitCode = 1;
+    } else {
+      console.log(`Saved ${result.event.id}: ${result.event.title_ja} (${result.event.date_start})`);
+    }
+    return;
+  }
+
+  if (action === "discard") {
+    if (await discardQuarantinedEvent(id)) {
+      console.log(`Discarded ${id}`);
+    } else {
+      console.error(`No quarantined event ${id}`);
+      process.exitCode = 1;
+    }
+    return;
+  }
+
+  console.error(`Unknown quarantine action "${action}" (expected list, show, fix or discard)`);
+  process.exitCode = 1;
+}
+
+function printCategoryTree(nodes: CategoryNode[], depth = 0): void {
+  for (const node of nodes) {
+    console.log(`  ${"  ".repeat(depth)}${node.id.padEnd(20 - depth * 2)} ${node.name_en} / ${node.name_ja} (${node.count})`);
+    printCategoryTree(node.children, depth + 1);
+  }
+}
+
+function printCategoryRule(rule: CategoryRule): void {
+  const disabled = rule.enabled ? "" : " [disabled]";
+  console.log(`  ${String(rule.id).padStart(4)} ${String(rule.priority).padStart(4)} ${rule.category.padEnd(12)} /${rule.pattern}/${disabled}`);
+}
+
+// --pattern=, --priority= and --enabled= as rule fields
+function ruleFlags(flags: Record<string, string | true>): Partial<CategoryRuleInput> {
+  const changes: Partial<CategoryRuleInput> = {};
+  if (typeof flags.category === "string") changes.category = flags.category;
+  if (typeof flags.pattern === "string") changes.pattern = flags.pattern;
+  if (typeof flags.priority === "string") changes.priority = Number(flags.priority);
+  if (typeof flags.enabled === "string") changes.enabled = flags.enabled === "true";
+  return changes;
+}
+
+// npm run scrape categories [list|rules|add <category> <pattern>|update <id>|remove <id>|reclassify]
+async function categoriesCommand(args: string[], flags: Record<string, string | true>): Promise<void> {
+  const [action = "list", ...rest] = args;
+
+  if (action === "list") {
+    console.log("\nCategories (events):");
+    printCategoryTree(await getCategoriesAsync());
+    return;
+  }
+
+  if (action === "rules") {
+    const rules = await getCategoryRulesAsync();
+    console.log(`\nCategory rules: ${rules.length} (id, priority, category, pattern)`);
+    rules.forEach(printCategoryRule);
+    return;
+  }
+
+  if (action === "add") {
+    const [category, pattern] = rest;
+    const rule = { category, pattern, priority: 0, enabled: true, ...ruleFlags(flags) };
+    const reasons = validateRule(rule);
+    if (reasons.length > 0) {
+      console.error(`Invalid rule: ${reasons.join("; ")}`);
+      console.error("Usage: npm run scrape categories add <category> <pattern> -- --priority=<n>");
+      process.exitCode = 1;
+      return;
+    }
+    printCategoryRule(await createCategoryRuleAsync(rule));
+    return;
+  }
+
+  if (action === "reclassify") {
+    const stats = await reclassifyEvents();
+    console.log(`Reclassified ${stats.changed} of ${stats.checked} events`);
+    console.log(`[resolve] ${stats.resolution.groups} canonical events from ${stats.resolution.linked} source rows`);
+    return;
+  }
+
+  const id = Number(rest[0]);
+  if (!Number.isInteger(id) || (action !== "update" && action !== "remove")) {
+    console.error(
+      action === "update" || action === "remove"
+        ? `Usage: npm run scrape categories ${action} <rule id>`
+        : `Unknown categories action "${action}" (expected list, rules, add, update, remove or reclassify)`
+    );
+    process.exitCode = 1;
+    return;
+  }
+
+  const existing = await getCategoryRuleAsync(id);
+  if (!existing) {
+    console.error(`No category rule ${id}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  if (action === "remove") {
+    await deleteCategoryRuleAsync(id);
+    console.log(`Removed rule ${id}`);
+    return;
+  }
+
+  const changes = ruleFlags(flags);
+  if (Object.keys(changes).length === 0) {
+    console.error("Pass at least one field to change: --category= --pattern= --priority= --enabled=");
+    process.exitCode = 1;
+    return;
+  }
+  const reasons = validateRule({ ...existing, ...changes });
+  if (reasons.length > 0) {
+    console.error(`Invalid rule: ${reasons.join("; ")}`);
+    process.exitCode = 1;
+    return;
+  }
+  printCategoryRule((await updateCategoryRuleAsync(id, changes))!);
+}
 
 async function main() {
-  const args = process.argv.slice(2);
-  const command = args[0];
+  const { positional, flags } = parseArgs(process.argv.slice(2));
+  const command = positional[0];
+
+  const mode = typeof flags.mode === "string" ? flags.mode : "live";
+  if (!isFetchMode(mode)) {
+    console.error(`Unknown --mode "${mode}" (expected live, record or replay)`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const runOptions: RunOptions = {
+    fetchMode: mode,
+    fixturesDir: typeof flags["fixtures-dir"] === "string" ? flags["fixtures-dir"] : undefined,
+    ...(flags["no-cache"] ? { useCache: false } : {}),
+    ...(typeof flags.details === "string" ? { detailBudget: parseInt(flags.details, 10) || 0 } : {}),
+    ...(typeof flags.pages === "string" ? { maxPages: parseInt(flags.pages, 10) || 1 } : {}),
+    ...(typeof flags.horizon === "string" ? { horizonDays: parseInt(flags.horizon, 10) || 1 } : {}),
+  };
+  const saveToDb = !flags["no-save"];
+  const concurrency = typeof flags.concurrency === "string" ? parseInt(flags.concurrency, 10) || 1 : 1;
+
+  if (command === "quarantine") {
+    await quarantineCommand(positional.slice(1), flags);
+    return;
+  }
+
+  if (command === "categories") {
+    await categoriesCommand(positional.slice(1), flags);
+    return;
+  }
 
   if (command === "list") {
     console.log("\nAvailable scrapers:");
     console.log("==================");
-    for (const scraper of listScrapers()) {
-      console.log(`  ${scraper.key.padEnd(20)} ${scraper.name} (${scraper.baseUrl})`);
+    for (const scraper of await listScrapers()) {
+      const { robots, allowed, crawlDelay } = scraper.policy;
+      const policy = `robots: ${robots}${allowed ? "" : ", disallowed"}${crawlDelay ? `, crawl-delay ${crawlDelay}s` : ""}`;
+      console.log(`  ${scraper.key.padEnd(20)} ${scraper.name} (${scraper.baseUrl}) [${policy}]`);
     }
     console.log("\nUsage:");
     console.log("  npm run scrape           # Run all scrapers");
     console.log("  npm run scrape list      # List available scrapers");
     console.log("  npm run scrape <source>  # Run specific scraper");
+    console.log("  npm run scrape quarantine [list|show <id>|fix <id>|discard <id>]");
+    console.log("                           # Review events held back by validation");
+    console.log("  npm run scrape categories [list|rules|add|update <id>|remove <id>|reclassify]");
+    console.log("                           # Category tree and classification rules");
+    console.log("\nOptions:");
+    console.log("  --mode=record            # Save every fetched page as a fixture");
+    console.log("  --mode=replay            # Serve saved fixtures instead of the network");
+    console.log("  --fixtures-dir=<path>    # Fixture location (default: fixtures/scrapers)");
+    console.log("  --no-save                # Don't write events to the database");
+    console.log("  --concurrency=<n>        # Run up to n sources in parallel (all sources only)");
+    console.log("  --no-cache               # Ignore ETag/Last-Modified cache, always re-parse");
+    console.log("  --details=<n>            # Enrich up to n events per source from their detail pages");
+    console.log("  --pages=<n>              # Follow up to n listing pages per list URL (default 5)");
+    console.log("  --horizon=<days>         # Stop paging past events this many days ahead (default 180)");
     console.log("\nExample:");
     console.log("  npm run scrape tokyo-cheapo");
+    console.log("  npm run scrape parco -- --mode=replay --no-save");
+    console.log("  npm run scrape kabuki-bito -- --details=20");
+    console.log("  npm run scrape quarantine fix pia-1x2y3z -- --date_start=2025-01-15 --venue_name=東京ドーム");
+    console.log("  npm run scrape categories add jazz ジャズ -- --priority=80");
     return;
   }
 
   if (command) {
     // Run specific scraper
-    console.log(`\nRunning scraper: ${command}`);
+    console.log(`\nRunning scraper: ${command}${mode !== "live" ? ` (${mode})` : ""}`);
     console.log("=".repeat(40));
 
-    const result = await runScraper(command, true);
+    const result = await runScraper(command, saveToDb, { ...runOptions, trigger: "cli" });
 
     console.log(`\nResults for ${result.source}:`);
     console.log(`  Events found: ${result.events.length}`);
-    console.log(`  Errors: ${result.errors.length}`);
+    console.log(`  Listing pages: ${result.pages}`);
+    console.log(`  Errors: ${result.errors.length}${result.errors.length > 0 ? ` (${formatErrorSummary(result.errors)})` : ""}`);
+    console.log(`  Blocked: ${result.blocked.length}`);
+    console.log(`  Quarantined: ${result.quarantined ?? 0}`);
+    console.log(`  No longer listed: ${result.disappeared ?? 0}`);
+    console.log(`  Warnings: ${result.warnings.length}`);
+    if (result.unchanged) {
+      console.log("  Unchanged since last run (all pages 304)");
+    }
+    if (result.details) {
+      const { fetched, reused, failed, deferred } = result.details;
+      console.log(`  Details: ${fetched} fetched, ${reused} reused, ${failed} failed, ${deferred} deferred`);
+    }
+    if (result.resolution) {
+      const { groups, linked } = result.resolution;
+      console.log(`  Cross-source: ${groups} canonical events from ${linked} rows`);
+    }
+    if (result.changes) {
+      printChanges(result.changes, "  ");
+    }
     console.log(`  Duration: ${result.duration_ms}ms`);
 
     if (result.errors.length > 0) {
       console.log("\nErrors:");
-      result.errors.forEach((e) => console.log(`  - ${e}`));
+      result.errors.forEach((e) => console.log(`  - ${formatError(e)}`));
+    }
+
+    if (result.blocked.length > 0) {
+      console.log("\nBlocked by robots.txt:");
+      result.blocked.forEach((url) => console.log(`  - ${url}`));
+    }
+
+    if (result.warnings.length > 0) {
+      console.log("\nWarnings:");
+      result.warnings.forEach((w) => console.log(`  - ${w}`));
+      process.exitCode = 1;
     }
 
     if (result.events.length > 0) {
@@ -47,22 +384,60 @@ async function main() {
     }
   } else {
     // Run all scrapers
-    console.log("\nRunning all scrapers...");
+    console.log(`\nRunning all scrapers${mode !== "live" ? ` (${mode})` : ""}...`);
     console.log("=".repeat(40));
 
-    const result = await runAllScrapers({ saveToDb: true });
+    const result = await runAllScrapers({ ...runOptions, saveToDb, concurrency, trigger: "cli" });
 
     console.log("\n" + "=".repeat(40));
     console.log("SUMMARY");
     console.log("=".repeat(40));
     console.log(`Total events: ${result.totalEvents}`);
-    console.log(`Total errors: ${result.totalErrors}`);
+    const allErrors = result.results.flatMap((r) => r.errors);
+    console.log(`Total errors: ${result.totalErrors}${allErrors.length > 0 ? ` (${formatErrorSummary(allErrors)})` : ""}`);
+    console.log(`Total blocked: ${result.totalBlocked}`);
+    console.log(`Total warnings: ${result.totalWarnings}`);
+    console.log(`Unchanged sources: ${result.totalUnchanged}`);
+    console.log(`Quarantined: ${result.totalQuarantined}`);
+    console.log(`No longer listed: ${result.totalDisappeared}`);
+    if (result.resolution) {
+      const { groups, linked, retired } = result.resolution;
+      console.log(`Cross-source: ${groups} canonical events from ${linked} rows (${retired} retired)`);
+    }
+    if (result.changes) {
+      printChanges(result.changes, "");
+    }
     console.log(`Total time: ${(result.totalDuration_ms / 1000).toFixed(1)}s`);
+    if (result.runId !== null) {
+      console.log(`Run ID: ${result.runId}`);
+    }
 
     console.log("\nPer source:");
     for (const r of result.results) {
-      const status = r.errors.length === 0 ? "✓" : "✗";
-      console.log(`  ${status} ${r.source.padEnd(20)} ${r.events.length} events (${r.errors.length} errors)`);
+      if (r.unchanged) {
+        console.log(`  = ${r.source.padEnd(20)} unchanged`);
+        continue;
+      }
+      const status = r.errors.length > 0 ? "✗" : r.warnings.length > 0 ? "!" : "✓";
+      const blocked = r.blocked.length > 0 ? `, ${r.blocked.length} blocked` : "";
+      const pages = r.pages > 1 ? `, ${r.pages} listing pages` : "";
+      const details = r.details?.fetched ? `, ${r.details.fetched} detail pages` : "";
+      const quarantined = r.quarantined ? `, ${r.quarantined} quarantined` : "";
+      const disappeared = r.disappeared ? `, ${r.disappeared} disappeared` : "";
+      const changed = r.changes?.events ? `, ${r.changes.events} changed` : "";
+      const seconds = (r.duration_ms / 1000).toFixed(1);
+      console.log(
+        `  ${status} ${r.source.padEnd(20)} ${r.events.length} events (${r.errors.length} errors${blocked}${pages}${details}${quarantined}${disappeared}${changed}) ${seconds}s`
+      );
+      r.warnings.forEach((w) => console.log(`      ! ${w}`));
+      r.errors
+        .filter((e) => e.severity !== "warning")
+        .forEach((e) => console.log(`      - ${formatError(e)}`));
+    }
+
+    // Non-zero exit so schedulers notice a source that quietly broke
+    if (result.totalWarnings > 0) {
+      process.exitCode = 1;
     }
   }
 }
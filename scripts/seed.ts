@@ -11,7 +11,7 @@ const sampleEvents = [
     date_end: "2025-01-26",
     venue_name: "歌舞伎座",
     venue_address: "東京都中央区銀座4-12-15",
-    area: "Tokyo",
+    area: "tokyo",
     category: "kabuki",
     tags: ["traditional", "theatre", "new year"],
     price_min: 4000,
@@ -30,7 +30,7 @@ const sampleEvents = [
     date_end: "2025-01-15",
     venue_name: "NHKホール",
     venue_address: "東京都渋谷区神南2-2-1",
-    area: "Tokyo",
+    area: "tokyo",
     category: "orchestra",
     tags: ["classical", "symphony", "beethoven"],
     price_min: 5000,
@@ -49,7 +49,7 @@ const sampleEvents = [
     date_end: "2025-01-31",
     venue_name: "渋谷PARCO",
     venue_address: "東京都渋谷区宇田川町15-1",
-    area: "Tokyo",
+    area: "tokyo",
     category: "anime",
     tags: ["anime", "jujutsu kaisen", "pop up", "shopping"],
     price_min: null,
@@ -68,7 +68,7 @@ const sampleEvents = [
     date_end: "2025-01-20",
     venue_name: "国立演芸場",
     venue_address: "東京都千代田区隼町4-1",
-    area: "Tokyo",
+    area: "tokyo",
     category: "rakugo",
     tags: ["traditional", "comedy", "storytelling"],
     price_min: 2500,
@@ -87,7 +87,7 @@ const sampleEvents = [
     date_end: "2025-03-30",
     venue_name: "帝国劇場",
     venue_address: "東京都千代田区丸の内3-1-1",
-    area: "Tokyo",
+    area: "tokyo",
     category: "musical",
     tags: ["musical", "broadway", "theatre"],
     price_min: 8000,
@@ -106,7 +106,7 @@ const sampleEvents = [
     date_end: "2025-02-10",
     venue_name: "フェスティバルホール",
     venue_address: "大阪市北区中之島2-3-18",
-    area: "Osaka",
+    area: "osaka",
     category: "orchestra",
     tags: ["classical", "symphony", "mahler"],
     price_min: 4000,
@@ -125,7 +125,7 @@ const sampleEvents = [
     date_end: "2025-02-03",
     venue_name: "八坂神社",
     venue_address: "京都市東山区祇園町北側625",
-    area: "Kyoto",
+    area: "kyoto",
     category: "festival",
     tags: ["festival", "traditional", "shrine", "free"],
     price_min: null,
@@ -144,7 +144,7 @@ const sampleEvents = [
     date_end: "2025-12-31",
     venue_name: "麻布台ヒルズ",
     venue_address: "東京都港区麻布台1-2-4",
-    area: "Tokyo",
+    area: "tokyo",
     category: "art",
     tags: ["art", "digital", "museum", "interactive"],
     price_min: 3800,
@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getAreasAsync } from "@/lib/db";
 
+// GET /api/areas - Regions > prefectures > cities and wards, with event counts
 export async function GET() {
   try {
     const areas = await getAreasAsync();
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from "next/server";
+import { reclassifyEvents } from "@/scrapers";
+
+// POST /api/categories/reclassify - Apply the current rules to saved events that haven't ended
+export async function POST(request: NextRequest) {
+  const apiKey = process.env.SCRAPE_API_KEY;
+  if (apiKey && request.headers.get("authorization") !== `Bearer ${apiKey}`) {
+    return NextResponse.json(
+      { error: "Unauthorized. Provide valid API key in Authorization header." },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const stats = await reclassifyEvents();
+    return NextResponse.json(stats);
+  } catch (error) {
+    console.error("Error reclassifying events:", error);
+    return NextResponse.json(
+      { error: "Failed to reclassify events" },
+      { status: 500 }
+    );
+  }
+}
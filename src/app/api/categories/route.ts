@@ -1,6 +1,7 @@
 import { NextResponse } from "next/server";
 import { getCategoriesAsync } from "@/lib/db";
 
+// GET /api/categories - Categories and their subcategories, with event counts
 export async function GET() {
   try {
     const categories = await getCategoriesAsync();
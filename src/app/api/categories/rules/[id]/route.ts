@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from "next/server";
+import { deleteCategoryRuleAsync, getCategoryRuleAsync, updateCategoryRuleAsync } from "@/lib/db";
+import { validateRule, CategoryRuleInput } from "@/lib/categories";
+
+function unauthorized(request: NextRequest): NextResponse | null {
+  const apiKey = process.env.SCRAPE_API_KEY;
+  if (apiKey && request.headers.get("authorization") !== `Bearer ${apiKey}`) {
+    return NextResponse.json(
+      { error: "Unauthorized. Provide valid API key in Authorization header." },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+// PATCH /api/categories/rules/:id - Change a rule (e.g. {"priority": 95} or {"enabled": false})
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  let body: Partial<CategoryRuleInput> | null;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Body must be a JSON object of fields to change" }, { status: 400 });
+  }
+
+  try {
+    const { id } = await params;
+    const existing = await getCategoryRuleAsync(Number(id));
+
+    if (!existing) {
+      return NextResponse.json(
+        { error: "Category rule not found" },
+        { status: 404 }
+      );
+    }
+
+    const { category, pattern, priority, enabled } = body;
+    const changes = Object.fromEntries(
+      Object.entries({ category, pattern, priority, enabled }).filter(([, value]) => value !== undefined)
+    ) as Partial<CategoryRuleInput>;
+    const reasons = validateRule({ ...existing, ...changes });
+    if (reasons.length > 0) {
+      return NextResponse.json(
+        { error: "Invalid category rule", reasons },
+        { status: 422 }
+      );
+    }
+
+    const rule = await updateCategoryRuleAsync(existing.id, changes);
+    return NextResponse.json(rule);
+  } catch (error) {
+    console.error("Error updating category rule:", error);
+    return NextResponse.json(
+      { error: "Failed to update category rule" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/categories/rules/:id - Remove a rule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    if (!(await deleteCategoryRuleAsync(Number(id)))) {
+      return NextResponse.json(
+        { error: "Category rule not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ deleted: Number(id) });
+  } catch (error) {
+    console.error("Error deleting category rule:", error);
+    return NextResponse.json(
+      { error: "Failed to delete category rule" },
+      { status: 500 }
+    );
+  }
+}
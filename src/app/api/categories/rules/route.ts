@@ -0,0 +1,64 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createCategoryRuleAsync, getCategoryRulesAsync } from "@/lib/db";
+import { validateRule, CategoryRuleInput } from "@/lib/categories";
+
+function unauthorized(request: NextRequest): NextResponse | null {
+  const apiKey = process.env.SCRAPE_API_KEY;
+  if (apiKey && request.headers.get("authorization") !== `Bearer ${apiKey}`) {
+    return NextResponse.json(
+      { error: "Unauthorized. Provide valid API key in Authorization header." },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+// GET /api/categories/rules - Classification rules, highest priority first
+export async function GET() {
+  try {
+    const rules = await getCategoryRulesAsync();
+    return NextResponse.json({ rules });
+  } catch (error) {
+    console.error("Error fetching category rules:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch category rules" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/categories/rules - Add a rule (e.g. {"category": "jazz", "pattern": "ジャズ", "priority": 80})
+export async function POST(request: NextRequest) {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  let body: Partial<CategoryRuleInput> | null;
+  try {
+    body = await request.json();
+  } catch {
+    body = null;
+  }
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return NextResponse.json({ error: "Body must be a JSON object with category, pattern and priority" }, { status: 400 });
+  }
+
+  const { category, pattern, priority = 0, enabled = true } = body;
+  const reasons = validateRule({ category, pattern, priority, enabled });
+  if (reasons.length > 0) {
+    return NextResponse.json(
+      { error: "Invalid category rule", reasons },
+      { status: 422 }
+    );
+  }
+
+  try {
+    const rule = await createCategoryRuleAsync({ category: category!, pattern: pattern!, priority, enabled });
+    return NextResponse.json(rule, { status: 201 });
+  } catch (error) {
+    console.error("Error creating category rule:", error);
+    return NextResponse.json(
+      { error: "Failed to create category rule" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runAllScrapers } from "@/scrapers";
+import { runAllScrapers, summarizeErrors } from "@/scrapers";
 
 export const maxDuration = 300; // 5 minutes max for Vercel Pro
 export const dynamic = "force-dynamic";
 
+// Sources scraped in parallel by the cron job (per-host rate limits still apply)
+const CRON_CONCURRENCY = parseInt(process.env.SCRAPE_CONCURRENCY || "4", 10) || 4;
+
+// Detail pages fetched per source for enrichment (0 disables the pass)
+const CRON_DETAIL_BUDGET = parseInt(process.env.SCRAPE_DETAIL_BUDGET || "0", 10) || 0;
+
 export async function GET(request: NextRequest) {
   // Verify the request is from Vercel Cron
   const authHeader = request.headers.get("authorization");
@@ -21,20 +27,46 @@ export async function GET(request: NextRequest) {
   console.log("Starting scheduled scrape job...");
 
   try {
-    const result = await runAllScrapers({ saveToDb: true });
+    const result = await runAllScrapers({
+      saveToDb: true,
+      concurrency: CRON_CONCURRENCY,
+      detailBudget: CRON_DETAIL_BUDGET,
+      trigger: "cron",
+    });
 
-    console.log(`Scrape complete: ${result.totalEvents} events, ${result.totalErrors} errors`);
+    console.log(
+      `Scrape complete: ${result.totalEvents} events, ${result.totalErrors} errors, ${result.totalWarnings} warnings, ${result.totalUnchanged} sources unchanged`
+    );
 
     return NextResponse.json({
       success: true,
+      healthy: result.totalWarnings === 0,
       message: "Scheduled scrape completed",
+      runId: result.runId,
       totalEvents: result.totalEvents,
       totalErrors: result.totalErrors,
+      errorsByKind: summarizeErrors(result.results.flatMap((r) => r.errors)),
+      totalBlocked: result.totalBlocked,
+      totalWarnings: result.totalWarnings,
+      totalUnchanged: result.totalUnchanged,
+      totalQuarantined: result.totalQuarantined,
+      totalDisappeared: result.totalDisappeared,
+      resolution: result.resolution,
+      changes: result.changes,
       duration_ms: result.totalDuration_ms,
       sources: result.results.map((r) => ({
         name: r.source,
         events: r.events.length,
+        saved: r.saved,
+        quarantined: r.quarantined,
+        disappeared: r.disappeared,
         errors: r.errors.length,
+        errorsByKind: summarizeErrors(r.errors),
+        warnings: r.warnings,
+        duration_ms: r.duration_ms,
+        blocked: r.blocked.length,
+        unchanged: r.unchanged,
+        details: r.details,
       })),
     });
   } catch (error) {
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventAliasAsync, getEventByIdAsync, getEventRevisionsAsync } from "@/lib/db";
+
+// GET /api/events/:id/history - Field changes recorded by scrapes, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    let event = await getEventByIdAsync(id);
+    if (!event) {
+      const aliasOf = await getEventAliasAsync(id);
+      event = aliasOf ? await getEventByIdAsync(aliasOf) : null;
+    }
+
+    if (!event) {
+      return NextResponse.json(
+        { error: "Event not found" },
+        { status: 404 }
+      );
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "100", 10) || 100;
+    const revisions = await getEventRevisionsAsync(event.id, limit);
+
+    return NextResponse.json({
+      event_id: event.id,
+      created_at: event.created_at,
+      revisions,
+    });
+  } catch (error) {
+    console.error("Error fetching event history:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch event history" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from "next/server";
-import { getEventByIdAsync } from "@/lib/db";
+import { getEventAliasAsync, getEventByIdAsync, getPerformancesAsync, getVenueByIdAsync } from "@/lib/db";
 
 export async function GET(
   request: NextRequest,
@@ -7,7 +7,12 @@ export async function GET(
 ) {
   try {
     const { id } = await params;
-    const event = await getEventByIdAsync(id);
+    let event = await getEventByIdAsync(id);
+    if (!event) {
+      // Links saved before the switch to hashed IDs
+      const aliasOf = await getEventAliasAsync(id);
+      event = aliasOf ? await getEventByIdAsync(aliasOf) : null;
+    }
 
     if (!event) {
       return NextResponse.json(
@@ -16,7 +21,11 @@ export async function GET(
       );
     }
 
-    return NextResponse.json(event);
+    return NextResponse.json({
+      ...event,
+      performances: await getPerformancesAsync(event.id),
+      venue: event.venue_id ? await getVenueByIdAsync(event.venue_id) : null,
+    });
   } catch (error) {
     console.error("Error fetching event:", error);
     return NextResponse.json(
@@ -1,16 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
 import { getEventsAsync } from "@/lib/db";
+import { TICKET_STATUSES, TicketStatus } from "@/lib/tickets";
+import { EVENT_STATUSES, EventStatus } from "@/lib/event-status";
+
+// ?evening=true keeps events with a performance starting at or after this
+const EVENING_FROM = "17:00";
+
+// "18:00" or "9:30" to HH:MM; anything else is ignored
+function parseTime(value: string | null): string | undefined {
+  const match = value?.match(/^(\d{1,2}):(\d{2})$/);
+  return match ? `${match[1].padStart(2, "0")}:${match[2]}` : undefined;
+}
+
+// Events their sources no longer list are left out unless asked for;
+// cancelled and postponed ones stay, badged
+const DEFAULT_STATUSES: EventStatus[] = ["active", "cancelled", "postponed"];
+
+// "on_sale,presale" to known statuses; unknown ones are ignored
+function parseStatuses<T extends string>(value: string | null, known: T[]): T[] | undefined {
+  const statuses = (value ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter((s): s is T => (known as string[]).includes(s));
+  return statuses.length > 0 ? statuses : undefined;
+}
 
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
+  const evening = searchParams.get("evening") === "true";
 
   const filters = {
     startDate: searchParams.get("start_date") || undefined,
     endDate: searchParams.get("end_date") || undefined,
+    timeFrom: parseTime(searchParams.get("time_from")) ?? (evening ? EVENING_FROM : undefined),
+    timeTo: parseTime(searchParams.get("time_to")),
     area: searchParams.get("area") || undefined,
     category: searchParams.get("category") || undefined,
+    ticketStatus: parseStatuses<TicketStatus>(searchParams.get("ticket_status"), TICKET_STATUSES),
+    status: parseStatuses<EventStatus>(searchParams.get("status"), EVENT_STATUSES) ?? DEFAULT_STATUSES,
     search: searchParams.get("search") || undefined,
     source: searchParams.get("source") || undefined,
+    venueId: searchParams.get("venue") || undefined,
+    // Canonical events by default; ?view=raw lists every source's own rows
+    view: searchParams.get("view") === "raw" ? ("raw" as const) : ("canonical" as const),
     page: searchParams.get("page") ? parseInt(searchParams.get("page")!) : 1,
     limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 20,
   };
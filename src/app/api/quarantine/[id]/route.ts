@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQuarantineEntryAsync } from "@/lib/db";
+import { discardQuarantinedEvent, fixQuarantinedEvent, QuarantineFix } from "@/scrapers";
+
+function unauthorized(request: NextRequest): NextResponse | null {
+  const apiKey = process.env.SCRAPE_API_KEY;
+  if (apiKey && request.headers.get("authorization") !== `Bearer ${apiKey}`) {
+    return NextResponse.json(
+      { error: "Unauthorized. Provide valid API key in Authorization header." },
+      { status: 401 }
+    );
+  }
+  return null;
+}
+
+// GET /api/quarantine/:id - One quarantined event with its raw source text
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const entry = await getQuarantineEntryAsync(id);
+
+    if (!entry) {
+      return NextResponse.json(
+        { error: "Quarantined event not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(entry);
+  } catch (error) {
+    console.error("Error fetching quarantined event:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quarantined event" },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/quarantine/:id - Correct fields (e.g. {"date_start": "2025-01-15"}) and save the event
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  let fix: unknown;
+  try {
+    fix = await request.json();
+  } catch {
+    fix = null;
+  }
+  if (!fix || typeof fix !== "object" || Array.isArray(fix)) {
+    return NextResponse.json({ error: "Body must be a JSON object of fields to fix" }, { status: 400 });
+  }
+
+  try {
+    const { id } = await params;
+    const result = await fixQuarantinedEvent(id, fix as QuarantineFix);
+
+    if (!result) {
+      return NextResponse.json(
+        { error: "Quarantined event not found" },
+        { status: 404 }
+      );
+    }
+    if ("reasons" in result) {
+      return NextResponse.json(
+        { error: "Event still fails validation", reasons: result.reasons },
+        { status: 422 }
+      );
+    }
+
+    return NextResponse.json(result.event);
+  } catch (error) {
+    console.error("Error fixing quarantined event:", error);
+    return NextResponse.json(
+      { error: "Failed to fix quarantined event" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/quarantine/:id - Discard; the event stays out on later runs
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const denied = unauthorized(request);
+  if (denied) return denied;
+
+  try {
+    const { id } = await params;
+
+    if (!(await discardQuarantinedEvent(id))) {
+      return NextResponse.json(
+        { error: "Quarantined event not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ discarded: id });
+  } catch (error) {
+    console.error("Error discarding quarantined event:", error);
+    return NextResponse.json(
+      { error: "Failed to discard quarantined event" },
+      { status: 500 }
+    );
+  }
+}
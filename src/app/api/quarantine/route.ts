@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getQuarantineAsync, isQuarantineStatus, QUARANTINE_STATUSES } from "@/lib/db";
+
+// GET /api/quarantine - Scraped events held back by validation
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const status = searchParams.get("status") || "pending";
+
+  if (!isQuarantineStatus(status)) {
+    return NextResponse.json(
+      { error: `Unknown status "${status}" (expected ${QUARANTINE_STATUSES.join(", ")})` },
+      { status: 400 }
+    );
+  }
+
+  const filters = {
+    source: searchParams.get("source") || undefined,
+    status,
+    limit: searchParams.get("limit") ? parseInt(searchParams.get("limit")!) : 100,
+  };
+
+  try {
+    const entries = await getQuarantineAsync(filters);
+    return NextResponse.json({ entries });
+  } catch (error) {
+    console.error("Error fetching quarantine:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch quarantine" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,36 @@
 import { NextRequest, NextResponse } from "next/server";
-import { runAllScrapers, runScraper, listScrapers } from "@/scrapers";
+import { runAllScrapers, runScraper, listScrapers, summarizeErrors } from "@/scrapers";
 
-// GET /api/scrape - List available scrapers
+// GET /api/scrape - List available scrapers and their crawl policy status
 export async function GET() {
-  const scrapers = listScrapers();
+  const scrapers = await listScrapers();
   return NextResponse.json({
     scrapers,
     usage: {
       runAll: "POST /api/scrape",
       runOne: "POST /api/scrape?source=tokyo-cheapo",
+      runParallel: "POST /api/scrape?concurrency=4",
+      enrichDetails: "POST /api/scrape?source=kabuki-bito&details=20",
+      morePages: "POST /api/scrape?source=ticket-pia&pages=10",
       listScrapers: "GET /api/scrape",
+      runHistory: "GET /api/scrape/runs",
+      quarantine: "GET /api/quarantine",
     },
   });
 }
 
+// Listing pages per list URL a request may ask for
+const MAX_PAGES = 20;
+
 // POST /api/scrape - Run scrapers
 export async function POST(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
   const source = searchParams.get("source");
   const saveToDb = searchParams.get("save") !== "false";
+  const concurrency = parseInt(searchParams.get("concurrency") || "1", 10) || 1;
+  const detailBudget = parseInt(searchParams.get("details") || "0", 10) || 0;
+  const pages = parseInt(searchParams.get("pages") || "", 10);
+  const maxPages = pages > 0 ? Math.min(pages, MAX_PAGES) : undefined;
 
   // Optional: Add basic auth protection
   const authHeader = request.headers.get("authorization");
@@ -35,29 +47,61 @@ export async function POST(request: NextRequest) {
     if (source) {
       // Run single scraper
       console.log(`Running scraper: ${source}`);
-      const result = await runScraper(source, saveToDb);
+      const result = await runScraper(source, saveToDb, { trigger: "api", detailBudget, maxPages });
 
       return NextResponse.json({
         success: result.errors.length === 0,
+        healthy: result.warnings.length === 0,
         source: result.source,
         eventsFound: result.events.length,
+        pages: result.pages,
+        saved: result.saved,
+        quarantined: result.quarantined,
+        disappeared: result.disappeared,
+        changes: result.changes,
+        errorsByKind: summarizeErrors(result.errors),
         errors: result.errors,
+        warnings: result.warnings,
+        blocked: result.blocked,
+        unchanged: result.unchanged,
+        details: result.details,
+        resolution: result.resolution,
         duration_ms: result.duration_ms,
       });
     } else {
       // Run all scrapers
       console.log("Running all scrapers...");
-      const result = await runAllScrapers({ saveToDb });
+      const result = await runAllScrapers({ saveToDb, concurrency, detailBudget, maxPages, trigger: "api" });
 
       return NextResponse.json({
         success: result.totalErrors === 0,
+        healthy: result.totalWarnings === 0,
+        runId: result.runId,
         totalEvents: result.totalEvents,
         totalErrors: result.totalErrors,
+        errorsByKind: summarizeErrors(result.results.flatMap((r) => r.errors)),
+        totalBlocked: result.totalBlocked,
+        totalWarnings: result.totalWarnings,
+        totalUnchanged: result.totalUnchanged,
+        totalQuarantined: result.totalQuarantined,
+        totalDisappeared: result.totalDisappeared,
+        resolution: result.resolution,
+        changes: result.changes,
         duration_ms: result.totalDuration_ms,
         results: result.results.map((r) => ({
           source: r.source,
           eventsFound: r.events.length,
+          pages: r.pages,
+          saved: r.saved,
+          quarantined: r.quarantined,
+          disappeared: r.disappeared,
+          changes: r.changes,
+          errorsByKind: summarizeErrors(r.errors),
           errors: r.errors,
+          warnings: r.warnings,
+          blocked: r.blocked,
+          unchanged: r.unchanged,
+          details: r.details,
           duration_ms: r.duration_ms,
         })),
       });
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScrapeRunByIdAsync } from "@/lib/db";
+
+// GET /api/scrape/runs/:id - A single run with every source's result
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const runId = parseInt(id, 10);
+    const run = isNaN(runId) ? null : await getScrapeRunByIdAsync(runId);
+
+    if (!run) {
+      return NextResponse.json(
+        { error: "Scrape run not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(run);
+  } catch (error) {
+    console.error("Error fetching scrape run:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scrape run" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScrapeRunsAsync, isScrapeTrigger, SCRAPE_TRIGGERS } from "@/lib/db";
+
+// Runs a request may ask for
+const MAX_LIMIT = 100;
+
+// GET /api/scrape/runs - Recent scrape runs with per-source results
+export async function GET(request: NextRequest) {
+  const searchParams = request.nextUrl.searchParams;
+  const trigger = searchParams.get("trigger") || undefined;
+
+  if (trigger !== undefined && !isScrapeTrigger(trigger)) {
+    return NextResponse.json(
+      { error: `Unknown trigger "${trigger}" (expected ${SCRAPE_TRIGGERS.join(", ")})` },
+      { status: 400 }
+    );
+  }
+
+  const limit = Number(searchParams.get("limit") || "20");
+  if (!Number.isInteger(limit) || limit <= 0) {
+    return NextResponse.json({ error: "limit must be a positive integer" }, { status: 400 });
+  }
+
+  const filters = {
+    source: searchParams.get("source") || undefined,
+    trigger,
+    limit: Math.min(limit, MAX_LIMIT),
+  };
+
+  try {
+    const runs = await getScrapeRunsAsync(filters);
+    return NextResponse.json({ runs });
+  } catch (error) {
+    console.error("Error fetching scrape runs:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch scrape runs" },
+      { status: 500 }
+    );
+  }
+}
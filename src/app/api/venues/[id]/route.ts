@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getEventsAsync, getVenueByIdAsync } from "@/lib/db";
+
+// GET /api/venues/:id - A venue and the events listed there
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const venue = await getVenueByIdAsync(id);
+
+    if (!venue) {
+      return NextResponse.json(
+        { error: "Venue not found" },
+        { status: 404 }
+      );
+    }
+
+    const limit = parseInt(request.nextUrl.searchParams.get("limit") || "50", 10) || 50;
+    const { events, total } = await getEventsAsync({
+      venueId: venue.id,
+      status: ["active", "cancelled", "postponed"],
+      limit,
+    });
+
+    return NextResponse.json({ ...venue, events, total });
+  } catch (error) {
+    console.error("Error fetching venue:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch venue" },
+      { status: 500 }
+    );
+  }
+}
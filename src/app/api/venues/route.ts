@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getVenuesAsync } from "@/lib/db";
+
+// GET /api/venues?prefecture=東京都 - Venues events have been seen at
+export async function GET(request: NextRequest) {
+  try {
+    const venues = await getVenuesAsync(request.nextUrl.searchParams.get("prefecture") || undefined);
+    return NextResponse.json({ venues });
+  } catch (error) {
+    console.error("Error fetching venues:", error);
+    return NextResponse.json(
+      { error: "Failed to fetch venues" },
+      { status: 500 }
+    );
+  }
+}
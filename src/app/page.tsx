@@ -5,6 +5,8 @@ import EventCard from "@/components/EventCard";
 import EventFilters from "@/components/EventFilters";
 import LanguageToggle from "@/components/LanguageToggle";
 import { Event } from "@/lib/db";
+import type { AreaNode } from "@/lib/areas";
+import type { CategoryNode } from "@/lib/categories";
 
 interface EventsResponse {
   events: Event[];
@@ -19,8 +21,8 @@ export default function Home() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [showJapanese, setShowJapanese] = useState(false);
-  const [areas, setAreas] = useState<string[]>([]);
-  const [categories, setCategories] = useState<string[]>([]);
+  const [areas, setAreas] = useState<AreaNode[]>([]);
+  const [categories, setCategories] = useState<CategoryNode[]>([]);
   const [page, setPage] = useState(1);
   const [totalPages, setTotalPages] = useState(1);
   const [total, setTotal] = useState(0);
@@ -1,6 +1,10 @@
 "use client";
 
 import { Event } from "@/lib/db";
+import type { TicketStatus } from "@/lib/tickets";
+import type { EventStatus } from "@/lib/event-status";
+import { areaName } from "@/lib/areas";
+import { categoryName, categoryPath } from "@/lib/categories";
 
 interface EventCardProps {
   event: Event;
@@ -24,10 +28,36 @@ function formatPrice(min: number | null, max: number | null): string {
   return `¥${min?.toLocaleString()} - ¥${max?.toLocaleString()}`;
 }
 
+function formatSaleWindow(event: Event): string | null {
+  const { ticket_status: status, sale_start: start, sale_end: end } = event;
+  if (!start) return null;
+  if (status === "not_on_sale") return `On sale ${formatDate(start)}`;
+  if (status === "lottery" || status === "presale") {
+    return end ? `${formatDate(start)} - ${formatDate(end)}` : `From ${formatDate(start)}`;
+  }
+  return null;
+}
+
+const ticketStatusLabels: Record<TicketStatus, { en: string; ja: string; color: string }> = {
+  on_sale: { en: "On sale", ja: "発売中", color: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  sold_out: { en: "Sold out", ja: "完売", color: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300" },
+  lottery: { en: "Lottery", ja: "抽選", color: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200" },
+  presale: { en: "Pre-sale", ja: "先行", color: "bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200" },
+  not_on_sale: { en: "Not yet on sale", ja: "発売前", color: "bg-gray-100 text-gray-600 dark:bg-gray-900 dark:text-gray-400" },
+};
+
+// Shown instead of the ticket status; there's nothing to buy for these
+const eventStatusLabels: Record<Exclude<EventStatus, "active">, { en: string; ja: string; color: string }> = {
+  cancelled: { en: "Cancelled", ja: "中止", color: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+  postponed: { en: "Postponed", ja: "延期", color: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200" },
+  disappeared: { en: "No longer listed", ja: "掲載終了", color: "bg-gray-200 text-gray-700 dark:bg-gray-700 dark:text-gray-300" },
+};
+
 const categoryColors: Record<string, string> = {
   kabuki: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200",
   orchestra: "bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200",
   anime: "bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200",
+  popup: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200",
   rakugo: "bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200",
   musical: "bg-pink-100 text-pink-800 dark:bg-pink-900 dark:text-pink-200",
   festival: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200",
@@ -35,19 +65,46 @@ const categoryColors: Record<string, string> = {
   default: "bg-gray-100 text-gray-800 dark:bg-gray-900 dark:text-gray-200",
 };
 
+// A category without a color of its own takes its closest ancestor's (fireworks as festival)
+function categoryColor(id: string): string {
+  const colored = categoryPath(id).reverse().find((c) => categoryColors[c.id]);
+  return colored ? categoryColors[colored.id] : categoryColors.default;
+}
+
 export default function EventCard({ event, showJapanese }: EventCardProps) {
   const title = showJapanese ? event.title_ja : (event.title_en || event.title_ja);
   const description = showJapanese
     ? event.description_ja
     : (event.description_en || event.description_ja);
-  const categoryColor = categoryColors[event.category] || categoryColors.default;
+  const eventStatus = event.status !== "active" ? eventStatusLabels[event.status] : null;
+  const ticketStatus = event.ticket_status ? ticketStatusLabels[event.ticket_status] : null;
+  const saleWindow = formatSaleWindow(event);
+  const tiers = event.price_tiers
+    ?.map((t) => `${showJapanese ? t.name_ja : (t.name_en || t.name_ja)} ¥${t.amount.toLocaleString()}`)
+    .join(" / ");
+  // A canonical event's other sources; the button below goes to the first
+  const otherLinks = event.ticket_links?.filter((link) => link.url !== event.source_url) ?? [];
 
   return (
     <div className="border border-gray-200 dark:border-gray-700 rounded-lg p-4 hover:shadow-lg transition-shadow bg-white dark:bg-gray-800">
       <div className="flex justify-between items-start mb-2">
-        <span className={`text-xs px-2 py-1 rounded-full ${categoryColor}`}>
-          {event.category}
-        </span>
+        <div className="flex gap-1">
+          {event.categories.map((id) => (
+            <span key={id} className={`text-xs px-2 py-1 rounded-full ${categoryColor(id)}`}>
+              {categoryName(id, showJapanese)}
+            </span>
+          ))}
+          {eventStatus ? (
+            <span className={`text-xs px-2 py-1 rounded-full ${eventStatus.color}`}>
+              {showJapanese ? eventStatus.ja : eventStatus.en}
+            </span>
+          ) : ticketStatus && (
+            <span className={`text-xs px-2 py-1 rounded-full ${ticketStatus.color}`}>
+              {showJapanese ? ticketStatus.ja : ticketStatus.en}
+              {saleWindow && <> · {saleWindow}</>}
+            </span>
+          )}
+        </div>
         <span className="text-xs text-gray-500 dark:text-gray-400">
           {event.source_name}
         </span>
@@ -87,14 +144,14 @@ export default function EventCard({ event, showJapanese }: EventCardProps) {
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M17.657 16.657L13.414 20.9a1.998 1.998 0 01-2.827 0l-4.244-4.243a8 8 0 1111.314 0z" />
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M15 11a3 3 0 11-6 0 3 3 0 016 0z" />
           </svg>
-          <span>{event.venue_name} ({event.area})</span>
+          <span>{event.venue_name} ({areaName(event.area, showJapanese)})</span>
         </div>
 
         <div className="flex items-center gap-2">
           <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8c-1.657 0-3 .895-3 2s1.343 2 3 2 3 .895 3 2-1.343 2-3 2m0-8c1.11 0 2.08.402 2.599 1M12 8V7m0 1v8m0 0v1m0-1c-1.11 0-2.08-.402-2.599-1M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
           </svg>
-          <span>{formatPrice(event.price_min, event.price_max)}</span>
+          <span title={tiers || undefined}>{formatPrice(event.price_min, event.price_max)}</span>
         </div>
       </div>
 
@@ -115,10 +172,28 @@ export default function EventCard({ event, showJapanese }: EventCardProps) {
         href={event.source_url}
         target="_blank"
         rel="noopener noreferrer"
-        className="mt-4 block w-full text-center bg-indigo-600 hover:bg-indigo-700 text-white py-2 px-4 rounded-lg transition-colors text-sm font-medium"
+        className={`mt-4 block w-full text-center py-2 px-4 rounded-lg transition-colors text-sm font-medium ${
+          eventStatus
+            ? "bg-gray-200 hover:bg-gray-300 text-gray-700 dark:bg-gray-700 dark:hover:bg-gray-600 dark:text-gray-200"
+            : "bg-indigo-600 hover:bg-indigo-700 text-white"
+        }`}
       >
-        View / Buy Tickets
+        {eventStatus ? "View Source Page" : "View / Buy Tickets"}
       </a>
+
+      {otherLinks.length > 0 && (
+        <p className="mt-2 text-xs text-center text-gray-500 dark:text-gray-400">
+          {showJapanese ? "他のサイト: " : "Also on: "}
+          {otherLinks.map((link, i) => (
+            <span key={link.event_id}>
+              {i > 0 && " · "}
+              <a href={link.url} target="_blank" rel="noopener noreferrer" className="underline hover:text-indigo-600">
+                {link.source_name}
+              </a>
+            </span>
+          ))}
+        </p>
+      )}
     </div>
   );
 }
@@ -1,5 +1,8 @@
 "use client";
 
+import type { AreaNode } from "@/lib/areas";
+import type { CategoryNode } from "@/lib/categories";
+
 interface EventFiltersProps {
   filters: {
     search: string;
@@ -8,12 +11,32 @@ interface EventFiltersProps {
     startDate: string;
     endDate: string;
   };
-  areas: string[];
-  categories: string[];
+  areas: AreaNode[];
+  categories: CategoryNode[];
   onFilterChange: (key: string, value: string) => void;
   onClear: () => void;
 }
 
+interface TreeNode {
+  id: string;
+  name_en: string;
+  count: number;
+  children: TreeNode[];
+}
+
+// Areas or categories with events, indented under the ones containing them
+function treeOptions(nodes: TreeNode[], depth = 0): React.ReactNode[] {
+  return nodes
+    .filter((node) => node.count > 0)
+    .flatMap((node) => [
+      <option key={node.id} value={node.id}>
+        {"\u00a0\u00a0".repeat(depth)}
+        {node.name_en} ({node.count})
+      </option>,
+      ...treeOptions(node.children, depth + 1),
+    ]);
+}
+
 export default function EventFilters({
   filters,
   areas,
@@ -49,11 +72,7 @@ export default function EventFilters({
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           >
             <option value="">All Areas</option>
-            {areas.map((area) => (
-              <option key={area} value={area}>
-                {area}
-              </option>
-            ))}
+            {treeOptions(areas)}
           </select>
         </div>
 
@@ -68,11 +87,7 @@ export default function EventFilters({
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:ring-2 focus:ring-indigo-500 focus:border-indigo-500"
           >
             <option value="">All Categories</option>
-            {categories.map((cat) => (
-              <option key={cat} value={cat}>
-                {cat.charAt(0).toUpperCase() + cat.slice(1)}
-              </option>
-            ))}
+            {treeOptions(categories)}
           </select>
         </div>
 
@@ -0,0 +1,208 @@
+/**
+ * Area taxonomy
+ *
+ * Regions, the 47 prefectures, major cities and Tokyo's 23 wards with JA/EN
+ * names (area-taxonomy.json). Events store the most specific area their
+ * venue's address or name pins down as an ID ("shibuya", "osaka-city",
+ * "hokkaido"), or "japan" when nothing matches. Filtering by an area takes
+ * in everything inside it, so area=kanto includes area=shibuya.
+ *
+ * Hokkaido is both a region and a prefecture, so it sits at the top level
+ * as a prefecture. Cities that share a prefecture's name get a "-city" ID.
+ */
+
+import taxonomy from "./area-taxonomy.json";
+
+export type AreaLevel = "region" | "prefecture" | "city" | "ward";
+
+export interface Area {
+  id: string;
+  level: AreaLevel;
+  name_ja: string;
+  name_en: string;
+  parent: string | null;
+}
+
+export interface AreaNode extends Area {
+  count: number; // Events here or anywhere inside
+  children: AreaNode[];
+}
+
+interface TaxonomyEntry {
+  id: string;
+  name_ja: string;
+  name_en: string;
+  parent: string | null;
+  aliases: string[]; // Other spellings and well-known districts (銀座, Umeda)
+  strict?: boolean; // The bare English name is too common a word to look for (Saga, Chuo)
+}
+
+// Where nothing in the taxonomy matched
+export const UNKNOWN_AREA = "japan";
+
+const ENTRIES: [AreaLevel, TaxonomyEntry[]][] = [
+  ["region", taxonomy.regions],
+  ["prefecture", taxonomy.prefectures],
+  ["city", taxonomy.cities],
+  ["ward", taxonomy.wards],
+];
+
+const AREAS: Area[] = ENTRIES.flatMap(([level, entries]) =>
+  entries.map(({ id, name_ja, name_en, parent }) => ({ id, level, name_ja, name_en, parent }))
+);
+const BY_ID = new Map(AREAS.map((area) => [area.id, area]));
+
+const fold = (name: string) => name.normalize("NFKC").toLowerCase().replace(/[\s\p{P}]/gu, "");
+
+// Folded IDs, names and aliases, for looking up an area by name
+const NAMES = new Map<string, Area>();
+for (const [, entries] of ENTRIES) {
+  for (const entry of entries) {
+    for (const name of [entry.id, entry.name_ja, entry.name_en, ...entry.aliases]) {
+      if (!NAMES.has(fold(name))) NAMES.set(fold(name), BY_ID.get(entry.id)!);
+    }
+  }
+}
+
+interface Pattern {
+  area: Area;
+  name: string; // NFKC, lowercase
+  latin: boolean; // Matched as a whole word
+}
+
+// Names to look for in free text, longest first so 東京都 is read before 京都
+const PATTERNS: Pattern[] = ENTRIES.flatMap(([, entries]) =>
+  entries.flatMap((entry) =>
+    [entry.name_ja, ...(entry.strict ? [] : [entry.name_en]), ...entry.aliases].map((name) => ({
+      area: BY_ID.get(entry.id)!,
+      name: name.normalize("NFKC").toLowerCase(),
+      latin: /^[\x20-\x7e]+$/.test(name),
+    }))
+  )
+).sort((a, b) => b.name.length - a.name.length);
+
+export function getArea(id: string): Area | null {
+  return BY_ID.get(id) ?? null;
+}
+
+// An area by ID or by any of its names ("Tokyo", "東京都", "渋谷")
+export function findArea(name: string): Area | null {
+  return BY_ID.get(name) ?? NAMES.get(fold(name)) ?? null;
+}
+
+// The area and the areas containing it, outermost first
+export function areaPath(id: string): Area[] {
+  const path: Area[] = [];
+  for (let area = getArea(id); area; area = area.parent ? getArea(area.parent) : null) {
+    path.unshift(area);
+  }
+  return path;
+}
+
+export function isWithinArea(id: string, ancestorId: string): boolean {
+  return areaPath(id).some((area) => area.id === ancestorId);
+}
+
+// Whether one area contains the other (an event listed under Tokyo and one under Shibuya)
+export function areasOverlap(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase() || isWithinArea(a, b) || isWithinArea(b, a);
+}
+
+// IDs of the area (an ID or name) and every area inside it; empty when it isn't in the taxonomy
+export function areaWithDescendants(name: string): string[] {
+  const area = findArea(name);
+  return area ? AREAS.filter((a) => isWithinArea(a.id, area.id)).map((a) => a.id) : [];
+}
+
+export function areaName(id: string, japanese = false): string {
+  const area = getArea(id);
+  if (area) return japanese ? area.name_ja : area.name_en;
+  if (id === UNKNOWN_AREA) return japanese ? "日本" : "Japan";
+  return id;
+}
+
+function occurrences(text: string, { name, latin }: Pattern): number[] {
+  const found: number[] = [];
+  for (let i = text.indexOf(name); i !== -1; i = text.indexOf(name, i + 1)) {
+    if (latin && (/[a-z0-9]/.test(text[i - 1] ?? "") || /[a-z0-9]/.test(text[i + name.length] ?? ""))) continue;
+    found.push(i);
+  }
+  return found;
+}
+
+interface Match {
+  area: Area;
+  index: number;
+}
+
+const firstIndex = (matches: Match[]) => Math.min(...matches.map((m) => m.index));
+
+/**
+ * The most specific area an address, venue name or other text names, or
+ * null. Mentions are grouped by prefecture and the best-supported one
+ * wins, so 大阪市中央区 is Osaka even though 中央区 alone is a Tokyo ward;
+ * within it, the deepest place named is taken.
+ */
+export function detectArea(text: string): string | null {
+  const normalized = text.normalize("NFKC").toLowerCase();
+  const taken: [number, number][] = [];
+  const matches: Match[] = [];
+  for (const pattern of PATTERNS) {
+    for (const index of occurrences(normalized, pattern)) {
+      const end = index + pattern.name.length;
+      if (taken.some(([start, stop]) => index < stop && end > start)) continue;
+      taken.push([index, end]);
+      matches.push({ area: pattern.area, index });
+    }
+  }
+  if (matches.length === 0) return null;
+
+  const groups = new Map<string, Match[]>();
+  for (const match of matches) {
+    const key = areaPath(match.area.id).find((a) => a.level === "prefecture")?.id ?? match.area.id;
+    groups.set(key, [...(groups.get(key) ?? []), match]);
+  }
+  // A region only counts when no prefecture is named
+  const named = [...groups.values()].filter((group) => group[0].area.level !== "region");
+  const candidates = named.length > 0 ? named : [...groups.values()];
+  const best = candidates.sort((a, b) => b.length - a.length || firstIndex(a) - firstIndex(b))[0];
+
+  const byArea = new Map<string, Match[]>();
+  for (const match of best) byArea.set(match.area.id, [...(byArea.get(match.area.id) ?? []), match]);
+  const depth = (id: string) => areaPath(id).length;
+  const [id] = [...byArea.entries()].sort(
+    ([a, x], [b, y]) => depth(b) - depth(a) || y.length - x.length || firstIndex(x) - firstIndex(y)
+  )[0];
+  return id;
+}
+
+/**
+ * The area ID to store for an event: the scraper's area (an ID or a name
+ * like "Tokyo"), narrowed to a place inside it that the venue's address
+ * or name gives. When the two disagree the scraper's area stands.
+ */
+export function normalizeArea(area: string, venueText = ""): string {
+  const given = findArea(area)?.id ?? null;
+  const detected = detectArea(venueText);
+  if (detected && (!given || isWithinArea(detected, given))) return detected;
+  return given ?? detected ?? UNKNOWN_AREA;
+}
+
+// Prefectures run north to south; regions sit where their first prefecture would
+const prefectureRank = (id: string) =>
+  taxonomy.prefectures.findIndex((p) => p.id === id || p.parent === id);
+
+// The taxonomy as a tree, with event counts (per area ID) rolled up into every containing area
+export function buildAreaTree(counts: Record<string, number>): AreaNode[] {
+  const nodes = new Map<string, AreaNode>(AREAS.map((area) => [area.id, { ...area, count: 0, children: [] }]));
+  for (const [id, count] of Object.entries(counts)) {
+    for (const area of areaPath(id)) nodes.get(area.id)!.count += count;
+  }
+
+  const roots: AreaNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent ? nodes.get(node.parent) : null;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots.sort((a, b) => prefectureRank(a.id) - prefectureRank(b.id));
+}
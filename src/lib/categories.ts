@@ -0,0 +1,181 @@
+/**
+ * Category taxonomy
+ *
+ * Parent/child categories with JA/EN names (category-taxonomy.json), and
+ * the rules that classify events into them. A rule is a case-insensitive
+ * regular expression with a priority; rules are stored in the
+ * category_rules table (seeded from the bundled defaults) so they can be
+ * edited without a deploy.
+ *
+ * An event gets every category a rule matches, plus the source's own
+ * category when it has one (Ticket Pia's section), which is also its
+ * primary category. Otherwise the primary category is the one with the
+ * highest-priority matching rule. Titles are matched first; descriptions
+ * only when no title matches, since they mention too much in passing.
+ */
+
+import taxonomy from "./category-taxonomy.json";
+
+export interface Category {
+  id: string;
+  parent: string | null;
+  name_ja: string;
+  name_en: string;
+}
+
+export interface CategoryNode extends Category {
+  count: number; // Events in this category or any inside it
+  children: CategoryNode[];
+}
+
+export interface CategoryRule {
+  id: number;
+  category: string;
+  pattern: string; // Regular expression, matched case-insensitively
+  priority: number; // Higher wins the primary category
+  enabled: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export type CategoryRuleInput = Pick<CategoryRule, "category" | "pattern" | "priority"> & { enabled?: boolean };
+
+export interface Classification {
+  category: string; // Primary
+  categories: string[]; // Every category the event is in, primary first
+}
+
+// Nothing matched
+export const DEFAULT_CATEGORY = "event";
+
+const CATEGORIES: Category[] = taxonomy.categories;
+const BY_ID = new Map(CATEGORIES.map((category) => [category.id, category]));
+
+export const DEFAULT_RULES: CategoryRuleInput[] = taxonomy.rules;
+
+export function getCategory(id: string): Category | null {
+  return BY_ID.get(id) ?? null;
+}
+
+// A category by ID or by its JA/EN name
+export function findCategory(name: string): Category | null {
+  const folded = name.trim().toLowerCase();
+  return BY_ID.get(folded) ?? CATEGORIES.find((c) => c.name_ja === name.trim() || c.name_en.toLowerCase() === folded) ?? null;
+}
+
+// The category and the categories containing it, outermost first
+export function categoryPath(id: string): Category[] {
+  const path: Category[] = [];
+  for (let category = getCategory(id); category; category = category.parent ? getCategory(category.parent) : null) {
+    path.unshift(category);
+  }
+  return path;
+}
+
+// IDs of the category (an ID or name) and every category inside it; empty when it isn't in the taxonomy
+export function categoryWithDescendants(name: string): string[] {
+  const category = findCategory(name);
+  if (!category) return [];
+  return CATEGORIES.filter((c) => categoryPath(c.id).some((a) => a.id === category.id)).map((c) => c.id);
+}
+
+export function categoryName(id: string, japanese = false): string {
+  const category = getCategory(id);
+  if (!category) return id;
+  return japanese ? category.name_ja : category.name_en;
+}
+
+// Why a rule can't be saved; empty when it can
+export function validateRule(rule: Partial<CategoryRuleInput>): string[] {
+  const reasons: string[] = [];
+  if (typeof rule.category !== "string" || !getCategory(rule.category)) {
+    reasons.push(`unknown category "${rule.category ?? ""}"`);
+  }
+  if (rule.pattern === undefined || rule.pattern === "") {
+    reasons.push("empty pattern");
+  } else if (typeof rule.pattern !== "string") {
+    reasons.push("pattern must be a string");
+  } else {
+    try {
+      new RegExp(rule.pattern, "i");
+    } catch (error) {
+      reasons.push(`invalid pattern: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (rule.priority !== undefined && !Number.isInteger(rule.priority)) {
+    reasons.push("priority must be an integer");
+  }
+  if (rule.enabled !== undefined && typeof rule.enabled !== "boolean") {
+    reasons.push("enabled must be true or false");
+  }
+  return reasons;
+}
+
+const compiled = new Map<string, RegExp | null>();
+
+function compile(pattern: string): RegExp | null {
+  if (!compiled.has(pattern)) {
+    try {
+      compiled.set(pattern, new RegExp(pattern, "i"));
+    } catch {
+      compiled.set(pattern, null);
+    }
+  }
+  return compiled.get(pattern)!;
+}
+
+// Matching rules' categories, best priority first
+function matchRules(texts: string[], rules: CategoryRule[]): string[] {
+  const best = new Map<string, number>();
+  for (const rule of rules) {
+    if (!rule.enabled || !getCategory(rule.category)) continue;
+    const pattern = compile(rule.pattern);
+    if (pattern && texts.some((text) => pattern.test(text))) {
+      best.set(rule.category, Math.max(best.get(rule.category) ?? -Infinity, rule.priority));
+    }
+  }
+  return [...best.entries()].sort((a, b) => b[1] - a[1]).map(([category]) => category);
+}
+
+/**
+ * Classify an event from its titles and descriptions. A category is
+ * dropped when one inside it also matched (fireworks over festival).
+ */
+export function classifyEvent(
+  event: { title_ja: string; title_en: string | null; description_ja: string | null; description_en: string | null },
+  rules: CategoryRule[],
+  sourceCategory?: string | null
+): Classification {
+  const fold = (texts: (string | null)[]) => texts.filter((t): t is string => !!t).map((t) => t.normalize("NFKC"));
+  let matched = matchRules(fold([event.title_ja, event.title_en]), rules);
+  if (matched.length === 0) {
+    matched = matchRules(fold([event.description_ja, event.description_en]), rules);
+  }
+
+  const source = sourceCategory ? findCategory(sourceCategory)?.id : undefined;
+  const found = [...new Set([...(source ? [source] : []), ...matched])];
+  const categories = found.filter(
+    (id) => id === source || !found.some((other) => other !== id && categoryPath(other).some((a) => a.id === id))
+  );
+  return categories.length > 0
+    ? { category: categories[0], categories }
+    : { category: DEFAULT_CATEGORY, categories: [DEFAULT_CATEGORY] };
+}
+
+// The taxonomy as a tree; an event counts once in every category it's in or inside
+export function buildCategoryTree(eventCategories: string[][]): CategoryNode[] {
+  const nodes = new Map<string, CategoryNode>(
+    CATEGORIES.map((category) => [category.id, { ...category, count: 0, children: [] }])
+  );
+  for (const categories of eventCategories) {
+    const containing = new Set(categories.flatMap((id) => categoryPath(id).map((c) => c.id)));
+    for (const id of containing) nodes.get(id)!.count++;
+  }
+
+  const roots: CategoryNode[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.parent ? nodes.get(node.parent) : null;
+    (parent ? parent.children : roots).push(node);
+  }
+  return roots;
+}
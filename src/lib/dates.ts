@@ -0,0 +1,261 @@
+/**
+ * Japanese date and period parsing shared by all scrapers
+ *
+ * - Full-width digits and punctuation (NFKC), 令和/平成/昭和 era years
+ * - 2025年1月15日, 2025/1/15, 2025.1.15, 2025-01-15, 1月15日, 1/15, Jan 15, 2025
+ * - Weekday/holiday annotations such as （土） or (土・祝)
+ * - Ranges with 〜, ～, ~, –, - or から, including short ends (1月2日〜26日)
+ * - Month-only periods such as "1月公演" (the whole month)
+ * - Dates without a year resolve to the next occurrence, so a December
+ *   listing's "1/15" is next January
+ * - Showtimes: doors/curtain times per stage or 部 (parseShowtimes)
+ */
+
+export interface DateRange {
+  start: string; // YYYY-MM-DD
+  end: string | null;
+}
+
+interface DateParts {
+  year: number | null;
+  month: number;
+  day: number | null; // null for month-only dates
+}
+
+// A date without a year that passed more recently than this is still current
+// (e.g. an exhibition that opened last month)
+const ROLLOVER_GRACE_DAYS = 90;
+
+const ERAS: Record<string, number> = { 令和: 2018, 平成: 1988, 昭和: 1925 };
+
+const MONTH_NAMES = [
+  "jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec",
+];
+const MONTH_NAME = String.raw`(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\.?`;
+
+const monthFromName = (name: string) => MONTH_NAMES.indexOf(name.slice(0, 3).toLowerCase()) + 1;
+const num = (value: string | undefined) => (value ? parseInt(value, 10) : null);
+
+// Sticky patterns tried at each position; the first to match wins
+const FULL_PATTERNS: [RegExp, (m: RegExpExecArray) => DateParts][] = [
+  [/(?<!\d)(\d{4})\s*年\s*(\d{1,2})\s*月\s*(\d{1,2})\s*日/y, (m) => ({ year: +m[1], month: +m[2], day: +m[3] })],
+  [/(?<!\d)(\d{4})\s*([/.\-])\s*(\d{1,2})\s*\2\s*(\d{1,2})(?!\d)/y, (m) => ({ year: +m[1], month: +m[3], day: +m[4] })],
+  [/(?<!\d)(\d{4})\s*年\s*(\d{1,2})\s*月/y, (m) => ({ year: +m[1], month: +m[2], day: null })],
+  [/(?<!\d)(\d{1,2})\s*月\s*(\d{1,2})\s*日/y, (m) => ({ year: null, month: +m[1], day: +m[2] })],
+  [/(?<![\d/.])(\d{1,2})\s*[/.]\s*(\d{1,2})(?![\d/.])/y, (m) => ({ year: null, month: +m[1], day: +m[2] })],
+  [/(?<!\d)(\d{1,2})\s*月(?!\s*\d)/y, (m) => ({ year: null, month: +m[1], day: null })],
+  [
+    new RegExp(String.raw`\b${MONTH_NAME}\s+(\d{1,2})(?:st|nd|rd|th)?\b(?:,?\s*(\d{4}))?`, "iy"),
+    (m) => ({ year: num(m[3]), month: monthFromName(m[1]), day: +m[2] }),
+  ],
+  [
+    new RegExp(String.raw`(?<!\d)(\d{1,2})(?:st|nd|rd|th)?\s+${MONTH_NAME}(?:,?\s*(\d{4}))?`, "iy"),
+    (m) => ({ year: num(m[3]), month: monthFromName(m[2]), day: +m[1] }),
+  ],
+];
+
+// Range ends may leave out the month ("1月2日〜26日", "Jan 15 - 28, 2025")
+const END_ONLY_PATTERNS: [RegExp, (m: RegExpExecArray) => Omit<DateParts, "month"> & { month: null }][] = [
+  [/(\d{1,2})\s*日/y, (m) => ({ year: null, month: null, day: +m[1] })],
+  [/(\d{1,2})(?:st|nd|rd|th)?(?:,\s*(\d{4}))?(?![\d/.月])/y, (m) => ({ year: num(m[2]), month: null, day: +m[1] })],
+];
+
+const RANGE_SEPARATOR = /\s*(?:[〜~\-–—―‐ー]|から|to|until)\s*/iy;
+
+// Full-width to half-width, era years to western years, annotations removed
+export function normalizeDateText(text: string): string {
+  return text
+    .normalize("NFKC")
+    .replace(/(令和|平成|昭和)\s*(元|\d{1,2})\s*年/g, (_, era: string, year: string) =>
+      `${ERAS[era] + (year === "元" ? 1 : parseInt(year, 10))}年`
+    )
+    .replace(/\s*\(([^()]{1,12})\)/g, (match, inner: string) =>
+      /^(?:[月火水木金土日祝休振替・,、/.\s]|mon|tue|wed|thu|fri|sat|sun|[a-z]{0,4}\.?)+$/i.test(inner) ? "" : match
+    );
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function isValid(parts: { year: number | null; month: number; day: number | null }): boolean {
+  if (parts.month < 1 || parts.month > 12) return false;
+  if (parts.day === null) return true;
+  return parts.day >= 1 && parts.day <= daysInMonth(parts.year ?? 2024, parts.month);
+}
+
+function readAt(text: string, index: number, patterns: typeof FULL_PATTERNS): { parts: DateParts; end: number } | null {
+  for (const [pattern, build] of patterns) {
+    pattern.lastIndex = index;
+    const match = pattern.exec(text);
+    if (match) {
+      const parts = build(match);
+      if (isValid(parts)) return { parts, end: pattern.lastIndex };
+    }
+  }
+  return null;
+}
+
+function readEnd(text: string, index: number, start: DateParts): DateParts | null {
+  RANGE_SEPARATOR.lastIndex = index;
+  if (!RANGE_SEPARATOR.exec(text)) return null;
+  const at = RANGE_SEPARATOR.lastIndex;
+
+  const full = readAt(text, at, FULL_PATTERNS);
+  if (full) return full.parts;
+
+  if (start.day === null) return null;
+  for (const [pattern, build] of END_ONLY_PATTERNS) {
+    pattern.lastIndex = at;
+    const match = pattern.exec(text);
+    if (match) {
+      const parts = { ...build(match), month: start.month };
+      if (isValid(parts)) return parts;
+    }
+  }
+  return null;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const toIso = (year: number, month: number, day: number) => `${year}-${pad(month)}-${pad(day)}`;
+const monthDayKey = (parts: DateParts, lastDay: boolean) =>
+  parts.month * 100 + (parts.day ?? (lastDay ? 31 : 1));
+
+// Earliest year in which the date is not long past
+function inferYear(parts: DateParts, reference: Date): number {
+  const cutoff = new Date(reference.getFullYear(), reference.getMonth(), reference.getDate() - ROLLOVER_GRACE_DAYS);
+  for (let year = reference.getFullYear() - 1; year <= reference.getFullYear() + 1; year++) {
+    const day = parts.day ?? daysInMonth(year, parts.month);
+    if (new Date(year, parts.month - 1, day) >= cutoff) return year;
+  }
+  return reference.getFullYear() + 1;
+}
+
+/**
+ * First date or period in the text. Returns null when there is none; an end
+ * equal to the start is reported as null.
+ */
+export function parseJapaneseDateRange(text: string, reference: Date = new Date()): DateRange | null {
+  if (!text) return null;
+  const normalized = normalizeDateText(text);
+
+  for (let index = 0; index < normalized.length; index++) {
+    const found = readAt(normalized, index, FULL_PATTERNS);
+    if (!found) continue;
+
+    const start = { ...found.parts };
+    const end = readEnd(normalized, found.end, start);
+
+    if (end) {
+      // Years flow between the ends; an end earlier in the year means it's the next year
+      const wraps = monthDayKey(end, true) < monthDayKey(start, false);
+      if (start.year === null && end.year === null) end.year = inferYear(end, reference);
+      if (end.year === null) end.year = start.year! + (wraps ? 1 : 0);
+      if (start.year === null) start.year = end.year - (wraps ? 1 : 0);
+    } else if (start.year === null) {
+      start.year = inferYear(start, reference);
+    }
+
+    const year = start.year!;
+    const startIso = toIso(year, start.month, start.day ?? 1);
+    // A month on its own ("1月公演") covers the whole month
+    const last = end ?? (start.day === null ? start : null);
+    const endIso = last ? toIso(last.year!, last.month, last.day ?? daysInMonth(last.year!, last.month)) : null;
+
+    return { start: startIso, end: endIso && endIso !== startIso ? endIso : null };
+  }
+
+  return null;
+}
+
+export function parseJapaneseDate(text: string, reference: Date = new Date()): string | null {
+  return parseJapaneseDateRange(text, reference)?.start ?? null;
+}
+
+export interface Showtime {
+  label: string | null; // "1st Stage", "昼の部"
+  open_time: string | null; // HH:MM
+  start_time: string | null; // HH:MM
+  program: string | null; // Text following a labelled showtime
+}
+
+const SHOW_LABEL = /(\d(?:st|nd|rd|th)\s*(?:stage|show)|昼の部|夜の部|第\s*[一二三123]\s*部|[一二三]部|マチネ|ソワレ|matinee|soir[ée]e)/gi;
+const SHOW_TIME = /(開場|開演|open|doors|start)?\s*[:：]?\s*(\d{1,2})\s*(?:[:：]\s*(\d{2})|時\s*(?:(\d{1,2})\s*分|半)?)/gi;
+// Unlabelled times this soon after these are ticket desk or sale hours ("受付10:00", "発売 1/10 12:00〜"),
+// as are the unlabelled times that follow them, up to the next 開場/開演
+const NOT_SHOW_TIME = /(?:受付|発売|販売|予約|抽選|締切|〆切|当日券|窓口|開館|閉館|営業|sale|box office)(?:(?!開場|開演|open|start).)*$/i;
+const NOT_SHOW_TIME_CHARS = 20;
+
+// Times in one labelled (or unlabelled) stretch of text, in order
+function readShowtimes(text: string, label: string | null): Showtime[] {
+  const shows: Showtime[] = [];
+  let current: Showtime | null = null;
+  let guessed = false; // current.start_time came from an unlabelled time
+  let saleHours = false;
+
+  for (const match of text.matchAll(SHOW_TIME)) {
+    const [whole, keyword, hour, minute, jaMinute] = match;
+    if (+hour > 29) continue;
+    const labelled = !!keyword || /^\s*(?:開場|開演)(?!\s*[:：]?\s*\d)/.test(text.slice(match.index! + whole.length));
+    if (labelled) {
+      saleHours = false;
+    } else if (saleHours || NOT_SHOW_TIME.test(text.slice(Math.max(0, match.index! - NOT_SHOW_TIME_CHARS), match.index))) {
+      saleHours = true;
+      continue;
+    }
+    const time = `${hour.padStart(2, "0")}:${(minute ?? jaMinute ?? (whole.endsWith("半") ? "30" : "00")).padStart(2, "0")}`;
+    const kind = !keyword ? null : /開場|open|doors/i.test(keyword) ? "open" : "start";
+
+    if (kind === "open") {
+      if (!current || current.open_time || current.start_time) shows.push((current = { label, open_time: null, start_time: null, program: null }));
+      current.open_time = time;
+    } else if (kind === "start" && current && !current.start_time) {
+      current.start_time = time;
+    } else if (!kind && current && guessed && !current.open_time) {
+      // "17:00/18:00": doors then start
+      current.open_time = current.start_time;
+      current.start_time = time;
+      guessed = false;
+    } else if (!kind && current && current.open_time && !current.start_time) {
+      current.start_time = time;
+    } else {
+      shows.push((current = { label, open_time: null, start_time: time, program: null }));
+      guessed = !kind;
+      continue;
+    }
+    guessed = false;
+  }
+
+  return shows;
+}
+
+/**
+ * Showtimes in free text: "1st Stage 開場17:00 開演18:00 / 2nd Stage
+ * 開場20:00 開演21:00", "昼の部 11:00「寿曽我対面」 夜の部 16:30 ...",
+ * "OPEN 18:00 / START 19:00", "18時半開演". Ticket desk and sale hours
+ * ("受付10:00") are left out.
+ */
+export function parseShowtimes(text: string): Showtime[] {
+  if (!text) return [];
+  const normalized = text.normalize("NFKC");
+  const labels = [...normalized.matchAll(SHOW_LABEL)];
+
+  if (labels.length === 0) return readShowtimes(normalized, null);
+
+  const shows: Showtime[] = [];
+  labels.forEach((match, i) => {
+    const from = match.index! + match[0].length;
+    const segment = normalized.slice(from, labels[i + 1]?.index ?? normalized.length);
+    const found = readShowtimes(segment, match[0]);
+    // Whatever isn't a time is the program ("「寿曽我対面」「仮名手本忠臣蔵」")
+    const program = segment.replace(SHOW_TIME, " ").replace(/[\s/|・、:：]+/g, " ").trim().slice(0, 200) || null;
+    if (found.length === 0) {
+      shows.push({ label: match[0], open_time: null, start_time: null, program });
+    } else {
+      found[0].program = program;
+      shows.push(...found);
+    }
+  });
+
+  return shows.filter((s) => s.open_time || s.start_time);
+}
@@ -10,6 +10,21 @@
 import Database from "better-sqlite3";
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
 import path from "path";
+import type { ScraperError } from "@/scrapers/errors";
+import type { EventDetails } from "@/scrapers/enrich";
+import type { ScrapedEvent } from "@/scrapers/base";
+import type { PriceTier, TicketStatus } from "@/lib/tickets";
+import type { EventStatus } from "@/lib/event-status";
+import type { Venue } from "@/lib/venues";
+import { AreaNode, UNKNOWN_AREA, areaWithDescendants, buildAreaTree, findArea, normalizeArea } from "@/lib/areas";
+import {
+  CategoryNode,
+  CategoryRule,
+  CategoryRuleInput,
+  DEFAULT_RULES,
+  buildCategoryTree,
+  categoryWithDescendants,
+} from "@/lib/categories";
 
 const DB_PATH = path.join(process.cwd(), "data", "events.db");
 
@@ -22,6 +37,14 @@ const useSupabase = !!(
 let sqliteDb: Database.Database | null = null;
 let supabaseClient: SupabaseClient | null = null;
 
+// Add a column introduced after the table was first created
+function addColumnIfMissing(db: Database.Database, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
 // SQLite initialization
 function initSqlite(): Database.Database {
   if (sqliteDb) return sqliteDb;
@@ -66,6 +89,192 @@ function initSqlite(): Database.Database {
   sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_category ON events(category)");
   sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_source ON events(source_name)");
 
+  // Seat tiers (JSON) and ticket availability
+  addColumnIfMissing(sqliteDb, "events", "price_tiers", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "ticket_status", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "sale_start", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "sale_end", "TEXT");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_ticket_status ON events(ticket_status)");
+
+  // Cross-source duplicates point at a merged canonical event (see scrapers/resolve.ts)
+  addColumnIfMissing(sqliteDb, "events", "canonical_id", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "ticket_links", "TEXT");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_canonical ON events(canonical_id)");
+
+  // Cancelled/postponed notices, and sources that stopped listing an event
+  addColumnIfMissing(sqliteDb, "events", "status", "TEXT NOT NULL DEFAULT 'active'");
+  addColumnIfMissing(sqliteDb, "events", "last_seen_at", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "missed_runs", "INTEGER NOT NULL DEFAULT 0");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_status ON events(status)");
+
+  // Venue registry (see lib/venues.ts); events point at it by ID
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS venues (
+      id TEXT PRIMARY KEY,
+      name_ja TEXT NOT NULL,
+      name_en TEXT,
+      aliases TEXT,
+      address TEXT,
+      prefecture TEXT,
+      lat REAL,
+      lng REAL,
+      station_ja TEXT,
+      station_en TEXT,
+      station_distance_m INTEGER,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_venues_prefecture ON venues(prefecture)");
+  addColumnIfMissing(sqliteDb, "events", "venue_id", "TEXT");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_events_venue ON events(venue_id)");
+
+  // Area names from before the area taxonomy ("Tokyo", "Japan") become area IDs
+  const areas = sqliteDb.prepare("SELECT DISTINCT area FROM events").all() as { area: string }[];
+  for (const { area } of areas) {
+    const id = findArea(area)?.id ?? UNKNOWN_AREA;
+    if (id !== area) sqliteDb.prepare("UPDATE events SET area = ? WHERE area = ?").run(id, area);
+  }
+
+  // Every category an event is in (see lib/categories.ts), and the source's own
+  addColumnIfMissing(sqliteDb, "events", "categories", "TEXT");
+  addColumnIfMissing(sqliteDb, "events", "source_category", "TEXT");
+  sqliteDb.exec("UPDATE events SET categories = json_array(category) WHERE categories IS NULL");
+
+  // Editable classification rules, seeded with the defaults when the table is first created
+  const hasRules = sqliteDb.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'category_rules'").get();
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS category_rules (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      category TEXT NOT NULL,
+      pattern TEXT NOT NULL,
+      priority INTEGER NOT NULL DEFAULT 0,
+      enabled INTEGER NOT NULL DEFAULT 1,
+      created_at TEXT DEFAULT (datetime('now')),
+      updated_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+  if (!hasRules) {
+    const insert = sqliteDb.prepare("INSERT INTO category_rules (category, pattern, priority) VALUES (?, ?, ?)");
+    for (const rule of DEFAULT_RULES) insert.run(rule.category, rule.pattern, rule.priority);
+  }
+
+  // Showtimes within an event (1st/2nd stage, 昼の部/夜の部)
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS performances (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+      date TEXT,
+      open_time TEXT,
+      start_time TEXT,
+      label TEXT,
+      program TEXT
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_performances_event ON performances(event_id)");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_performances_start ON performances(start_time)");
+
+  // Conditional request validators for scraper pages (see BaseScraper.fetchPage)
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS http_cache (
+      url TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      etag TEXT,
+      last_modified TEXT,
+      body TEXT,
+      fetched_at TEXT NOT NULL
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_http_cache_source ON http_cache(source)");
+
+  // Details read from event pages by the enrichment pass (see scrapers/enrich.ts)
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS event_details (
+      event_id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      url TEXT NOT NULL,
+      details TEXT NOT NULL,
+      fetched_at TEXT NOT NULL
+    )
+  `);
+
+  // Scraped events held back by validation (see scrapers/validate.ts)
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS quarantine (
+      event_id TEXT PRIMARY KEY,
+      source TEXT NOT NULL,
+      event TEXT NOT NULL,
+      reasons TEXT NOT NULL,
+      raw_text TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      fixes TEXT,
+      first_seen_at TEXT NOT NULL,
+      last_seen_at TEXT NOT NULL
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_quarantine_source ON quarantine(source, status)");
+
+  // Former event IDs and the events they now belong to (see src/lib/ids.ts)
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS event_aliases (
+      alias TEXT PRIMARY KEY,
+      event_id TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now'))
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_event_aliases_event ON event_aliases(event_id)");
+
+  // Scrape run history
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS scrape_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      trigger TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT,
+      events_found INTEGER NOT NULL DEFAULT 0,
+      inserted INTEGER NOT NULL DEFAULT 0,
+      updated INTEGER NOT NULL DEFAULT 0,
+      unchanged INTEGER NOT NULL DEFAULT 0,
+      error_count INTEGER NOT NULL DEFAULT 0
+    )
+  `);
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS scrape_run_sources (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      run_id INTEGER NOT NULL REFERENCES scrape_runs(id) ON DELETE CASCADE,
+      source TEXT NOT NULL,
+      source_name TEXT NOT NULL,
+      started_at TEXT NOT NULL,
+      finished_at TEXT NOT NULL,
+      duration_ms INTEGER NOT NULL,
+      events_found INTEGER NOT NULL DEFAULT 0,
+      inserted INTEGER NOT NULL DEFAULT 0,
+      updated INTEGER NOT NULL DEFAULT 0,
+      unchanged INTEGER NOT NULL DEFAULT 0,
+      not_modified INTEGER NOT NULL DEFAULT 0,
+      errors TEXT
+    )
+  `);
+  addColumnIfMissing(sqliteDb, "scrape_run_sources", "dates_parsed", "INTEGER NOT NULL DEFAULT 0");
+  addColumnIfMissing(sqliteDb, "scrape_run_sources", "venues_found", "INTEGER NOT NULL DEFAULT 0");
+  addColumnIfMissing(sqliteDb, "scrape_run_sources", "warnings", "TEXT");
+  addColumnIfMissing(sqliteDb, "scrape_run_sources", "quarantined", "INTEGER NOT NULL DEFAULT 0");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_run_sources_run ON scrape_run_sources(run_id)");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_run_sources_source ON scrape_run_sources(source, started_at)");
+
+  // Field-level changes to saved events, one row per upsert that changed something
+  sqliteDb.exec(`
+    CREATE TABLE IF NOT EXISTS event_revisions (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      event_id TEXT NOT NULL,
+      run_id INTEGER REFERENCES scrape_runs(id) ON DELETE SET NULL,
+      source TEXT NOT NULL,
+      changes TEXT NOT NULL,
+      created_at TEXT NOT NULL
+    )
+  `);
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_event_revisions_event ON event_revisions(event_id, id)");
+  sqliteDb.exec("CREATE INDEX IF NOT EXISTS idx_event_revisions_run ON event_revisions(run_id)");
+
   return sqliteDb;
 }
 
@@ -92,34 +301,292 @@ export interface Event {
   date_end: string | null;
   venue_name: string;
   venue_address: string | null;
+  venue_id: string | null; // venues table, null when the venue is a placeholder (会場未定)
   area: string;
-  category: string;
+  category: string; // Primary category
+  categories: string[]; // Every category it's in, primary first
+  source_category: string | null; // The source's own category, when it has one
   tags: string[] | null;
   price_min: number | null;
   price_max: number | null;
+  price_tiers: PriceTier[] | null;
+  ticket_status: TicketStatus | null;
+  sale_start: string | null; // Lottery/pre-sale window, or when general sale opens
+  sale_end: string | null;
   source_url: string;
   source_name: string;
   image_url: string | null;
+  canonical_id: string | null; // Set on a source's row once it's merged into a canonical event
+  ticket_links: TicketLink[] | null; // Set on canonical events: every source's page
+  status: EventStatus;
+  last_seen_at: string | null; // Last time a scrape (or, for canonical events, a source) listed it
+  missed_runs: number; // Successful runs of its source in a row that didn't list it
   created_at: string;
   updated_at: string;
 }
 
+export interface Performance {
+  date: string | null; // YYYY-MM-DD, null for every day of the event's run
+  open_time: string | null; // HH:MM, doors
+  start_time: string | null; // HH:MM, curtain
+  label: string | null; // "1st Stage", "昼の部"
+  program: string | null;
+}
+
+type TicketFields = "price_tiers" | "ticket_status" | "sale_start" | "sale_end" | "ticket_links";
+
+export interface TicketLink {
+  event_id: string; // The source's own row
+  source_name: string;
+  url: string;
+}
+
+type OptionalFields = "status" | "last_seen_at" | "venue_id" | "categories" | "source_category";
+
+// An event as saved; performances, when given, replace the stored ones.
+// Ticket fields left out are saved as unknown (null), status as active,
+// last_seen_at as now and categories as just the primary one. A row stored
+// under legacy_id is moved to the event's ID first.
+export type EventInput = Omit<
+  Event,
+  "created_at" | "updated_at" | "canonical_id" | "missed_runs" | OptionalFields | TicketFields
+> &
+  Partial<Pick<Event, TicketFields | OptionalFields>> & {
+    performances?: Performance[];
+    legacy_id?: string;
+  };
+
 export interface EventFilters {
   startDate?: string;
   endDate?: string;
+  timeFrom?: string; // HH:MM, events with a performance starting at or after
+  timeTo?: string; // HH:MM, events with a performance starting at or before
   area?: string;
   category?: string;
+  venueId?: string;
+  view?: "canonical" | "raw"; // Merged events (default), or every source's own rows
+  ticketStatus?: TicketStatus[];
+  status?: EventStatus[];
   search?: string;
   source?: string;
   page?: number;
   limit?: number;
 }
 
+export interface HttpCacheEntry {
+  url: string;
+  source: string; // Scraper key
+  etag: string | null;
+  last_modified: string | null;
+  body: string | null; // Only kept when a validator is present
+  fetched_at: string;
+}
+
+export interface EventDetailsEntry {
+  event_id: string;
+  source: string; // Scraper key
+  url: string; // Detail page the details were read from
+  details: EventDetails;
+  fetched_at: string;
+}
+
+export type QuarantineStatus = "pending" | "fixed" | "discarded";
+
+export const QUARANTINE_STATUSES: QuarantineStatus[] = ["pending", "fixed", "discarded"];
+
+export function isQuarantineStatus(value: string): value is QuarantineStatus {
+  return (QUARANTINE_STATUSES as string[]).includes(value);
+}
+
+export interface QuarantineEntry {
+  event_id: string;
+  source: string; // Scraper key
+  event: ScrapedEvent; // As last scraped
+  reasons: string[]; // Why validation rejected it
+  raw_text: string | null; // Source text the event was parsed from
+  status: QuarantineStatus;
+  fixes: Partial<ScrapedEvent> | null; // Reviewer corrections, reapplied on later runs
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// A run's sighting of a rejected event; review status and fixes are kept
+export type QuarantineSighting = Omit<QuarantineEntry, "status" | "fixes" | "first_seen_at">;
+
+export interface QuarantineFilters {
+  source?: string;
+  status?: QuarantineStatus;
+  limit?: number;
+}
+
+// What an event's ID is derived from, for stored events and quarantined ones
+export interface EventIdentity {
+  id: string;
+  source_name: string;
+  source_url: string;
+  title_ja: string;
+  quarantined: boolean;
+}
+
+export type UpsertOutcome = "inserted" | "updated" | "unchanged";
+
+export interface FieldChange {
+  field: string; // An Event field, or "performances"
+  old: unknown;
+  new: unknown;
+}
+
+export interface EventRevision {
+  id: number;
+  event_id: string;
+  run_id: number | null; // The scrape run that saw the change, null outside runs
+  source: string; // Source name of the event at the time
+  changes: FieldChange[];
+  created_at: string;
+}
+
+export type ScrapeTrigger = "cron" | "api" | "cli";
+
+export const SCRAPE_TRIGGERS: ScrapeTrigger[] = ["cron", "api", "cli"];
+
+export function isScrapeTrigger(value: string): value is ScrapeTrigger {
+  return (SCRAPE_TRIGGERS as string[]).includes(value);
+}
+
+export interface ScrapeRun {
+  id: number;
+  trigger: ScrapeTrigger;
+  started_at: string;
+  finished_at: string | null; // null while the run is in progress (or if it crashed)
+  events_found: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  error_count: number;
+}
+
+export interface ScrapeRunSource {
+  id: number;
+  run_id: number;
+  source: string; // Scraper key
+  source_name: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  events_found: number;
+  inserted: number;
+  updated: number;
+  unchanged: number;
+  not_modified: boolean; // Skipped because every page answered 304
+  dates_parsed: number; // Events whose date came from the page, not a fallback
+  venues_found: number; // Events with a real venue rather than a placeholder
+  quarantined: number; // Events held back by validation
+  errors: ScraperError[];
+  warnings: string[]; // Health check anomalies (see scrapers/health.ts)
+}
+
+export interface ScrapeRunWithSources extends ScrapeRun {
+  sources: ScrapeRunSource[];
+}
+
+export interface ScrapeRunFilters {
+  source?: string;
+  trigger?: ScrapeTrigger;
+  limit?: number;
+}
+
+// Fields compared to decide whether an upsert actually changes a row
+const EVENT_FIELDS = [
+  "title_ja", "title_en", "description_ja", "description_en",
+  "date_start", "date_end", "venue_name", "venue_address", "venue_id", "area",
+  "category", "categories", "source_category", "tags", "price_min", "price_max", "price_tiers", "ticket_status", "sale_start", "sale_end",
+  "source_url", "source_name", "image_url", "ticket_links", "status",
+] as const;
+
+export function changedEventFields(existing: Event, event: Omit<EventInput, "performances">): string[] {
+  return EVENT_FIELDS.filter(
+    (field) => JSON.stringify(existing[field] ?? null) !== JSON.stringify(event[field] ?? null)
+  );
+}
+
+// Old and new values of what an upsert changes; empty for a new event
+function diffEvent(
+  existing: Event | null,
+  event: Omit<EventInput, "performances">,
+  performances: { old: Performance[]; new: Performance[] } | null
+): FieldChange[] {
+  if (!existing) return [];
+  const changes: FieldChange[] = changedEventFields(existing, event).map((field) => ({
+    field,
+    old: existing[field as keyof Event] ?? null,
+    new: event[field as keyof typeof event] ?? null,
+  }));
+  if (performances) {
+    changes.push({
+      field: "performances",
+      old: normalizePerformances(performances.old),
+      new: normalizePerformances(performances.new),
+    });
+  }
+  return changes;
+}
+
+// Stable field and row order, so stored and scraped lists compare equal
+function normalizePerformances(performances: Performance[]): Performance[] {
+  const key = (p: Performance) => `${p.date ?? ""} ${p.start_time ?? p.open_time ?? ""} ${p.label ?? ""}`;
+  return performances
+    .map((p) => ({
+      date: p.date ?? null,
+      open_time: p.open_time ?? null,
+      start_time: p.start_time ?? null,
+      label: p.label ?? null,
+      program: p.program ?? null,
+    }))
+    .sort((a, b) => key(a).localeCompare(key(b)));
+}
+
+const samePerformances = (a: Performance[], b: Performance[]) =>
+  JSON.stringify(normalizePerformances(a)) === JSON.stringify(normalizePerformances(b));
+
+// Unknown ticket fields as null, so they compare equal to what's stored
+function withTicketDefaults<T extends Partial<Pick<Event, TicketFields>>>(event: T): T & Pick<Event, TicketFields> {
+  return {
+    ...event,
+    price_tiers: event.price_tiers?.length ? event.price_tiers : null,
+    ticket_links: event.ticket_links?.length ? event.ticket_links : null,
+    ticket_status: event.ticket_status ?? null,
+    sale_start: event.sale_start ?? null,
+    sale_end: event.sale_end ?? null,
+  };
+}
+
+// Area IDs from the taxonomy, narrowed by what the venue's address or name gives
+function withArea<T extends Pick<Event, "area" | "venue_name" | "venue_address">>(event: T): T {
+  return { ...event, area: normalizeArea(event.area, `${event.venue_address ?? ""} ${event.venue_name}`) };
+}
+
+// When an event was seen, and saved as active unless the source says otherwise
+function withSighting<T extends Pick<Event, "category"> & Partial<Pick<Event, OptionalFields>>>(
+  event: T
+): T & Pick<Event, OptionalFields> {
+  return {
+    ...event,
+    venue_id: event.venue_id ?? null,
+    categories: event.categories?.length ? event.categories : [event.category],
+    source_category: event.source_category ?? null,
+    status: event.status ?? "active",
+    last_seen_at: event.last_seen_at ?? new Date().toISOString(),
+  };
+}
+
 // Helper to parse SQLite row to Event
 function parseEventFromSqlite(row: Record<string, unknown>): Event {
   return {
-    ...(row as unknown as Omit<Event, "tags">),
+    ...(row as unknown as Omit<Event, "tags" | "categories" | "price_tiers" | "ticket_links">),
     tags: row.tags ? JSON.parse(row.tags as string) : null,
+    categories: row.categories ? JSON.parse(row.categories as string) : [row.category as string],
+    price_tiers: row.price_tiers ? JSON.parse(row.price_tiers as string) : null,
+    ticket_links: row.ticket_links ? JSON.parse(row.ticket_links as string) : null,
   };
 }
 
@@ -127,9 +594,12 @@ function parseEventFromSqlite(row: Record<string, unknown>): Event {
 
 function getEventsSqlite(filters: EventFilters): { events: Event[]; total: number } {
   const db = initSqlite();
-  const { startDate, endDate, area, category, search, source, page = 1, limit = 20 } = filters;
+  const { startDate, endDate, timeFrom, timeTo, area, category, venueId, view, ticketStatus, status, search, source } =
+    filters;
+  const { page = 1, limit = 20 } = filters;
 
-  const conditions: string[] = [];
+  // A canonical event stands in for its sources' rows; unmerged rows are their own
+  const conditions: string[] = [view === "raw" ? "ticket_links IS NULL" : "canonical_id IS NULL"];
   const params: Record<string, string | number> = {};
 
   if (startDate) {
@@ -140,16 +610,73 @@ function getEventsSqlite(filters: EventFilters): { events: Event[]; total: numbe
     conditions.push("(date_end <= @endDate OR (date_end IS NULL AND date_start <= @endDate))");
     params.endDate = endDate;
   }
+  if (timeFrom || timeTo) {
+    const window: string[] = [];
+    if (timeFrom) {
+      window.push("start_time >= @timeFrom");
+      params.timeFrom = timeFrom;
+    }
+    if (timeTo) {
+      window.push("start_time <= @timeTo");
+      params.timeTo = timeTo;
+    }
+    // A showtime within the dates asked for (one without a date runs every day)
+    if (startDate) window.push("(date IS NULL OR date >= @startDate)");
+    if (endDate) window.push("(date IS NULL OR date <= @endDate)");
+    conditions.push(`id IN (SELECT event_id FROM performances WHERE ${window.join(" AND ")})`);
+  }
   if (area) {
-    conditions.push("LOWER(area) = LOWER(@area)");
-    params.area = area;
+    // The area and everything inside it; names outside the taxonomy match as they are
+    const areas = areaWithDescendants(area);
+    if (areas.length > 0) {
+      const placeholders = areas.map((id, i) => {
+        params[`area${i}`] = id;
+        return `@area${i}`;
+      });
+      conditions.push(`area IN (${placeholders.join(", ")})`);
+    } else {
+      conditions.push("LOWER(area) = LOWER(@area)");
+      params.area = area;
+    }
   }
   if (category) {
-    conditions.push("LOWER(category) = LOWER(@category)");
-    params.category = category;
+    // In the category or any inside it; names outside the taxonomy match the primary category
+    const categories = categoryWithDescendants(category);
+    if (categories.length > 0) {
+      const placeholders = categories.map((id, i) => {
+        params[`category${i}`] = id;
+        return `@category${i}`;
+      });
+      conditions.push(`EXISTS (SELECT 1 FROM json_each(events.categories) WHERE value IN (${placeholders.join(", ")}))`);
+    } else {
+      conditions.push("LOWER(category) = LOWER(@category)");
+      params.category = category;
+    }
+  }
+  if (venueId) {
+    conditions.push("venue_id = @venueId");
+    params.venueId = venueId;
+  }
+  if (ticketStatus && ticketStatus.length > 0) {
+    const placeholders = ticketStatus.map((status, i) => {
+      params[`ticketStatus${i}`] = status;
+      return `@ticketStatus${i}`;
+    });
+    conditions.push(`ticket_status IN (${placeholders.join(", ")})`);
+  }
+  if (status && status.length > 0) {
+    const placeholders = status.map((value, i) => {
+      params[`status${i}`] = value;
+      return `@status${i}`;
+    });
+    conditions.push(`status IN (${placeholders.join(", ")})`);
   }
   if (source) {
-    conditions.push("LOWER(source_name) = LOWER(@source)");
+    conditions.push(
+      view === "raw"
+        ? "LOWER(source_name) = LOWER(@source)"
+        : "(LOWER(source_name) = LOWER(@source) OR id IN (SELECT canonical_id FROM events WHERE LOWER(source_name) = LOWER(@source)))"
+    );
     params.source = source;
   }
   if (search) {
@@ -159,7 +686,7 @@ function getEventsSqlite(filters: EventFilters): { events: Event[]; total: numbe
     params.search = `%${search}%`;
   }
 
-  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const whereClause = `WHERE ${conditions.join(" AND ")}`;
   const offset = (page - 1) * limit;
 
   const countStmt = db.prepare(`SELECT COUNT(*) as count FROM events ${whereClause}`);
@@ -182,163 +709,1381 @@ function getEventByIdSqlite(id: string): Event | null {
   return row ? parseEventFromSqlite(row) : null;
 }
 
-function upsertEventSqlite(event: Omit<Event, "created_at" | "updated_at">): void {
+function getPerformancesSqlite(eventId: string): Performance[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT date, open_time, start_time, label, program FROM performances WHERE event_id = ?")
+    .all(eventId) as Performance[];
+  return normalizePerformances(rows);
+}
+
+function replacePerformancesSqlite(eventId: string, performances: Performance[]): void {
+  const db = initSqlite();
+  const insert = db.prepare(`
+    INSERT INTO performances (event_id, date, open_time, start_time, label, program)
+    VALUES (@event_id, @date, @open_time, @start_time, @label, @program)
+  `);
+
+  db.prepare("DELETE FROM performances WHERE event_id = ?").run(eventId);
+  for (const performance of normalizePerformances(performances)) {
+    insert.run({ ...performance, event_id: eventId });
+  }
+}
+
+function addEventRevisionSqlite(eventId: string, runId: number | null, source: string, changes: FieldChange[]): void {
+  const db = initSqlite();
+  db.prepare(
+    "INSERT INTO event_revisions (event_id, run_id, source, changes, created_at) VALUES (?, ?, ?, ?, ?)"
+  ).run(eventId, runId, source, JSON.stringify(changes), new Date().toISOString());
+}
+
+function parseRevisionFromSqlite(row: Record<string, unknown>): EventRevision {
+  return { ...(row as unknown as EventRevision), changes: JSON.parse(row.changes as string) };
+}
+
+function getEventRevisionsSqlite(eventId: string, limit: number): EventRevision[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT * FROM event_revisions WHERE event_id = ? ORDER BY id DESC LIMIT ?")
+    .all(eventId, limit) as Record<string, unknown>[];
+  return rows.map(parseRevisionFromSqlite);
+}
+
+function getRunRevisionsSqlite(runId: number, source?: string): EventRevision[] {
+  const db = initSqlite();
+  const rows = (
+    source
+      ? db.prepare("SELECT * FROM event_revisions WHERE run_id = ? AND source = ? ORDER BY id").all(runId, source)
+      : db.prepare("SELECT * FROM event_revisions WHERE run_id = ? ORDER BY id").all(runId)
+  ) as Record<string, unknown>[];
+  return rows.map(parseRevisionFromSqlite);
+}
+
+function upsertEventSqlite(input: EventInput, runId: number | null): UpsertOutcome {
+  const { performances, legacy_id: legacyId, ...fields } = input;
+  const event = withSighting(withTicketDefaults(withArea(fields)));
   const db = initSqlite();
+  if (legacyId && legacyId !== event.id && !getEventByIdSqlite(event.id)) {
+    renameEventSqlite(legacyId, event.id);
+  }
+  const existing = getEventByIdSqlite(event.id);
+  const stored = performances !== undefined ? getPerformancesSqlite(event.id) : [];
+  const performancesChanged = performances !== undefined && !samePerformances(stored, performances);
+  const changes = diffEvent(existing, event, performancesChanged ? { old: stored, new: performances } : null);
+  if (existing && changes.length === 0) {
+    db.prepare("UPDATE events SET last_seen_at = ?, missed_runs = 0 WHERE id = ?").run(event.last_seen_at, event.id);
+    return "unchanged";
+  }
+
   const stmt = db.prepare(`
     INSERT INTO events (
       id, title_ja, title_en, description_ja, description_en,
-      date_start, date_end, venue_name, venue_address, area,
-      category, tags, price_min, price_max, source_url, source_name, image_url
+      date_start, date_end, venue_name, venue_address, venue_id, area,
+      category, categories, source_category, tags, price_min, price_max, price_tiers, ticket_status, sale_start, sale_end,
+      source_url, source_name, image_url, ticket_links, status, last_seen_at, missed_runs
     ) VALUES (
       @id, @title_ja, @title_en, @description_ja, @description_en,
-      @date_start, @date_end, @venue_name, @venue_address, @area,
-      @category, @tags, @price_min, @price_max, @source_url, @source_name, @image_url
+      @date_start, @date_end, @venue_name, @venue_address, @venue_id, @area,
+      @category, @categories, @source_category, @tags, @price_min, @price_max, @price_tiers, @ticket_status, @sale_start, @sale_end,
+      @source_url, @source_name, @image_url, @ticket_links, @status, @last_seen_at, 0
     )
     ON CONFLICT(id) DO UPDATE SET
       title_ja = @title_ja, title_en = @title_en,
       description_ja = @description_ja, description_en = @description_en,
       date_start = @date_start, date_end = @date_end,
-      venue_name = @venue_name, venue_address = @venue_address,
-      area = @area, category = @category, tags = @tags,
-      price_min = @price_min, price_max = @price_max,
+      venue_name = @venue_name, venue_address = @venue_address, venue_id = @venue_id,
+      area = @area, category = @category, categories = @categories, source_category = @source_category, tags = @tags,
+      price_min = @price_min, price_max = @price_max, price_tiers = @price_tiers,
+      ticket_status = @ticket_status, sale_start = @sale_start, sale_end = @sale_end,
       source_url = @source_url, source_name = @source_name,
-      image_url = @image_url, updated_at = datetime('now')
+      image_url = @image_url, ticket_links = @ticket_links,
+      status = @status, last_seen_at = @last_seen_at, missed_runs = 0, updated_at = datetime('now')
   `);
-  stmt.run({ ...event, tags: event.tags ? JSON.stringify(event.tags) : null });
+  db.transaction(() => {
+    stmt.run({
+      ...event,
+      categories: JSON.stringify(event.categories),
+      tags: event.tags ? JSON.stringify(event.tags) : null,
+      price_tiers: event.price_tiers ? JSON.stringify(event.price_tiers) : null,
+      ticket_links: event.ticket_links ? JSON.stringify(event.ticket_links) : null,
+    });
+    if (performancesChanged) {
+      replacePerformancesSqlite(event.id, performances);
+    }
+    if (changes.length > 0) {
+      addEventRevisionSqlite(event.id, runId, event.source_name, changes);
+    }
+  })();
+  return existing ? "updated" : "inserted";
 }
 
-function getCategoriesSqlite(): string[] {
-  const db = initSqlite();
-  const rows = db.prepare("SELECT DISTINCT category FROM events ORDER BY category").all() as { category: string }[];
-  return rows.map((r) => r.category);
+function parseVenueFromSqlite(row: Record<string, unknown>): Venue {
+  return {
+    ...(row as unknown as Omit<Venue, "aliases">),
+    aliases: row.aliases ? JSON.parse(row.aliases as string) : [],
+  };
 }
 
-function getAreasSqlite(): string[] {
+// Gazetteer venues are rewritten; a venue known only from scrapes keeps
+// details a later scrape leaves out
+function upsertVenuesSqlite(venues: Venue[]): void {
   const db = initSqlite();
-  const rows = db.prepare("SELECT DISTINCT area FROM events ORDER BY area").all() as { area: string }[];
-  return rows.map((r) => r.area);
+  const stmt = db.prepare(`
+    INSERT INTO venues (
+      id, name_ja, name_en, aliases, address, prefecture, lat, lng, station_ja, station_en, station_distance_m
+    ) VALUES (
+      @id, @name_ja, @name_en, @aliases, @address, @prefecture, @lat, @lng, @station_ja, @station_en, @station_distance_m
+    )
+    ON CONFLICT(id) DO UPDATE SET
+      name_ja = excluded.name_ja, name_en = COALESCE(excluded.name_en, name_en), aliases = excluded.aliases,
+      address = COALESCE(excluded.address, address), prefecture = COALESCE(excluded.prefecture, prefecture),
+      lat = COALESCE(excluded.lat, lat), lng = COALESCE(excluded.lng, lng),
+      station_ja = COALESCE(excluded.station_ja, station_ja), station_en = COALESCE(excluded.station_en, station_en),
+      station_distance_m = COALESCE(excluded.station_distance_m, station_distance_m)
+  `);
+  db.transaction(() => {
+    for (const venue of venues) stmt.run({ ...venue, aliases: JSON.stringify(venue.aliases) });
+  })();
 }
 
-function getSourcesSqlite(): string[] {
+function getVenuesSqlite(prefecture?: string): Venue[] {
   const db = initSqlite();
-  const rows = db.prepare("SELECT DISTINCT source_name FROM events ORDER BY source_name").all() as { source_name: string }[];
-  return rows.map((r) => r.source_name);
+  const rows = (
+    prefecture
+      ? db.prepare("SELECT * FROM venues WHERE prefecture = ? ORDER BY name_ja").all(prefecture)
+      : db.prepare("SELECT * FROM venues ORDER BY name_ja").all()
+  ) as Record<string, unknown>[];
+  return rows.map(parseVenueFromSqlite);
 }
 
-// ============ Supabase implementations ============
-
-async function getEventsSupabase(filters: EventFilters): Promise<{ events: Event[]; total: number }> {
-  const supabase = getSupabase();
-  const { startDate, endDate, area, category, search, source, page = 1, limit = 20 } = filters;
-  const offset = (page - 1) * limit;
+function getVenueByIdSqlite(id: string): Venue | null {
+  const db = initSqlite();
+  const row = db.prepare("SELECT * FROM venues WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  return row ? parseVenueFromSqlite(row) : null;
+}
 
-  let query = supabase.from("events").select("*", { count: "exact" });
+// Listed events (canonical, not disappeared) per category
+function getCategoriesSqlite(): CategoryNode[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT categories FROM events WHERE canonical_id IS NULL AND status != 'disappeared'")
+    .all() as { categories: string }[];
+  return buildCategoryTree(rows.map((r) => JSON.parse(r.categories)));
+}
 
-  if (startDate) {
-    query = query.gte("date_start", startDate);
-  }
-  if (endDate) {
-    query = query.or(`date_end.lte.${endDate},and(date_end.is.null,date_start.lte.${endDate})`);
-  }
-  if (area) {
-    query = query.ilike("area", area);
-  }
-  if (category) {
-    query = query.ilike("category", category);
-  }
-  if (source) {
-    query = query.ilike("source_name", source);
-  }
-  if (search) {
-    query = query.or(
-      `title_ja.ilike.%${search}%,title_en.ilike.%${search}%,description_ja.ilike.%${search}%,description_en.ilike.%${search}%`
-    );
-  }
+function parseRuleFromSqlite(row: Record<string, unknown>): CategoryRule {
+  return { ...(row as unknown as CategoryRule), enabled: row.enabled === 1 };
+}
 
-  const { data, count, error } = await query
-    .order("date_start", { ascending: true })
-    .range(offset, offset + limit - 1);
+function getCategoryRulesSqlite(): CategoryRule[] {
+  const db = initSqlite();
+  const rows = db.prepare("SELECT * FROM category_rules ORDER BY priority DESC, id").all() as Record<string, unknown>[];
+  return rows.map(parseRuleFromSqlite);
+}
 
-  if (error) {
-    console.error("Supabase error:", error);
-    throw error;
-  }
+function getCategoryRuleSqlite(id: number): CategoryRule | null {
+  const db = initSqlite();
+  const row = db.prepare("SELECT * FROM category_rules WHERE id = ?").get(id) as Record<string, unknown> | undefined;
+  return row ? parseRuleFromSqlite(row) : null;
+}
 
-  return {
-    events: (data || []) as Event[],
-    total: count || 0,
-  };
+function createCategoryRuleSqlite(rule: CategoryRuleInput): CategoryRule {
+  const db = initSqlite();
+  const { lastInsertRowid } = db
+    .prepare("INSERT INTO category_rules (category, pattern, priority, enabled) VALUES (?, ?, ?, ?)")
+    .run(rule.category, rule.pattern, rule.priority, rule.enabled === false ? 0 : 1);
+  return getCategoryRuleSqlite(Number(lastInsertRowid))!;
 }
 
-async function getEventByIdSupabase(id: string): Promise<Event | null> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from("events")
-    .select("*")
-    .eq("id", id)
-    .single();
+function updateCategoryRuleSqlite(id: number, changes: Partial<CategoryRuleInput>): CategoryRule | null {
+  const existing = getCategoryRuleSqlite(id);
+  if (!existing) return null;
 
-  if (error) {
-    if (error.code === "PGRST116") return null; // Not found
-    throw error;
-  }
+  const rule = { ...existing, ...changes };
+  const db = initSqlite();
+  db.prepare(
+    "UPDATE category_rules SET category = ?, pattern = ?, priority = ?, enabled = ?, updated_at = datetime('now') WHERE id = ?"
+  ).run(rule.category, rule.pattern, rule.priority, rule.enabled ? 1 : 0, id);
+  return getCategoryRuleSqlite(id);
+}
 
-  return data as Event;
+function deleteCategoryRuleSqlite(id: number): boolean {
+  const db = initSqlite();
+  return db.prepare("DELETE FROM category_rules WHERE id = ?").run(id).changes > 0;
 }
 
-async function upsertEventSupabase(event: Omit<Event, "created_at" | "updated_at">): Promise<void> {
-  const supabase = getSupabase();
-  const { error } = await supabase
-    .from("events")
-    .upsert({
-      ...event,
-      updated_at: new Date().toISOString(),
-    });
+function setEventCategoriesSqlite(event: Event, category: string, categories: string[]): void {
+  const db = initSqlite();
+  db.transaction(() => {
+    db.prepare("UPDATE events SET category = ?, categories = ?, updated_at = datetime('now') WHERE id = ?").run(
+      category,
+      JSON.stringify(categories),
+      event.id
+    );
+    addEventRevisionSqlite(event.id, null, event.source_name, [
+      { field: "category", old: event.category, new: category },
+      { field: "categories", old: event.categories, new: categories },
+    ]);
+  })();
+}
 
-  if (error) {
-    console.error("Supabase upsert error:", error);
-    throw error;
-  }
+// Listed events (canonical, not disappeared) per area
+function getAreasSqlite(): AreaNode[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare(
+      "SELECT area, COUNT(*) AS count FROM events WHERE canonical_id IS NULL AND status != 'disappeared' GROUP BY area"
+    )
+    .all() as { area: string; count: number }[];
+  return buildAreaTree(Object.fromEntries(rows.map((r) => [r.area, r.count])));
 }
 
-async function getCategoriesSupabase(): Promise<string[]> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from("events")
-    .select("category")
-    .order("category");
+function getSourcesSqlite(): string[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT DISTINCT source_name FROM events WHERE ticket_links IS NULL ORDER BY source_name")
+    .all() as { source_name: string }[];
+  return rows.map((r) => r.source_name);
+}
 
-  if (error) throw error;
+function getHttpCacheEntriesSqlite(source: string): HttpCacheEntry[] {
+  const db = initSqlite();
+  return db.prepare("SELECT * FROM http_cache WHERE source = ?").all(source) as HttpCacheEntry[];
+}
 
-  // Get unique categories
-  const categories = [...new Set((data || []).map((r) => r.category))];
-  return categories;
+function putHttpCacheEntrySqlite(entry: HttpCacheEntry): void {
+  const db = initSqlite();
+  db.prepare(`
+    INSERT INTO http_cache (url, source, etag, last_modified, body, fetched_at)
+    VALUES (@url, @source, @etag, @last_modified, @body, @fetched_at)
+    ON CONFLICT(url) DO UPDATE SET
+      source = @source, etag = @etag, last_modified = @last_modified,
+      body = @body, fetched_at = @fetched_at
+  `).run(entry);
 }
 
-async function getAreasSupabase(): Promise<string[]> {
-  const supabase = getSupabase();
-  const { data, error } = await supabase
-    .from("events")
-    .select("area")
-    .order("area");
+function pruneHttpCacheSqlite(source: string, keepUrls: string[]): void {
+  const db = initSqlite();
+  const keep = new Set(keepUrls);
+  const remove = db.prepare("DELETE FROM http_cache WHERE url = ?");
+  const urls = db.prepare("SELECT url FROM http_cache WHERE source = ?").all(source) as { url: string }[];
+
+  db.transaction(() => {
+    for (const { url } of urls) {
+      if (!keep.has(url)) remove.run(url);
+    }
+  })();
+}
 
-  if (error) throw error;
+function getEventDetailsSqlite(eventIds: string[]): EventDetailsEntry[] {
+  if (eventIds.length === 0) return [];
 
-  const areas = [...new Set((data || []).map((r) => r.area))];
-  return areas;
+  const db = initSqlite();
+  const stmt = db.prepare("SELECT * FROM event_details WHERE event_id = ?");
+  return eventIds
+    .map((id) => stmt.get(id) as Record<string, unknown> | undefined)
+    .filter((row): row is Record<string, unknown> => row !== undefined)
+    .map((row) => ({
+      ...(row as unknown as Omit<EventDetailsEntry, "details">),
+      details: JSON.parse(row.details as string),
+    }));
+}
+
+function putEventDetailsSqlite(entry: EventDetailsEntry): void {
+  const db = initSqlite();
+  db.prepare(`
+    INSERT INTO event_details (event_id, source, url, details, fetched_at)
+    VALUES (@event_id, @source, @url, @details, @fetched_at)
+    ON CONFLICT(event_id) DO UPDATE SET
+      source = @source, url = @url, details = @details, fetched_at = @fetched_at
+  `).run({ ...entry, details: JSON.stringify(entry.details) });
+}
+
+function parseQuarantineFromSqlite(row: Record<string, unknown>): QuarantineEntry {
+  return {
+    ...(row as unknown as Omit<QuarantineEntry, "event" | "reasons" | "fixes">),
+    event: JSON.parse(row.event as string),
+    reasons: JSON.parse(row.reasons as string),
+    fixes: row.fixes ? JSON.parse(row.fixes as string) : null,
+  };
+}
+
+function getQuarantineSqlite(filters: QuarantineFilters): QuarantineEntry[] {
+  const db = initSqlite();
+  const { source, status, limit = 100 } = filters;
+
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = { limit };
+
+  if (source) {
+    conditions.push("source = @source");
+    params.source = source;
+  }
+  if (status) {
+    conditions.push("status = @status");
+    params.status = status;
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const rows = db
+    .prepare(`SELECT * FROM quarantine ${whereClause} ORDER BY last_seen_at DESC LIMIT @limit`)
+    .all(params) as Record<string, unknown>[];
+  return rows.map(parseQuarantineFromSqlite);
+}
+
+function getQuarantineEntrySqlite(eventId: string): QuarantineEntry | null {
+  const db = initSqlite();
+  const row = db.prepare("SELECT * FROM quarantine WHERE event_id = ?").get(eventId) as
+    | Record<string, unknown>
+    | undefined;
+  return row ? parseQuarantineFromSqlite(row) : null;
+}
+
+function putQuarantineSightingSqlite(sighting: QuarantineSighting): void {
+  const db = initSqlite();
+  db.prepare(`
+    INSERT INTO quarantine (event_id, source, event, reasons, raw_text, first_seen_at, last_seen_at)
+    VALUES (@event_id, @source, @event, @reasons, @raw_text, @last_seen_at, @last_seen_at)
+    ON CONFLICT(event_id) DO UPDATE SET
+      source = @source, event = @event, reasons = @reasons,
+      raw_text = @raw_text, last_seen_at = @last_seen_at
+  `).run({ ...sighting, event: JSON.stringify(sighting.event), reasons: JSON.stringify(sighting.reasons) });
+}
+
+function updateQuarantineReviewSqlite(eventId: string, review: Pick<QuarantineEntry, "status" | "fixes">): void {
+  const db = initSqlite();
+  db.prepare("UPDATE quarantine SET status = ?, fixes = ? WHERE event_id = ?").run(
+    review.status,
+    review.fixes ? JSON.stringify(review.fixes) : null,
+    eventId
+  );
+}
+
+function deleteQuarantineEntrySqlite(eventId: string): void {
+  const db = initSqlite();
+  db.prepare("DELETE FROM quarantine WHERE event_id = ?").run(eventId);
+}
+
+function getEventIdentitiesSqlite(): EventIdentity[] {
+  const db = initSqlite();
+  const events = db.prepare("SELECT id, source_name, source_url, title_ja FROM events").all() as Omit<
+    EventIdentity,
+    "quarantined"
+  >[];
+  const quarantined = db.prepare("SELECT event_id, event FROM quarantine").all() as { event_id: string; event: string }[];
+
+  return [
+    ...events.map((e) => ({ ...e, quarantined: false })),
+    ...quarantined.map((q) => {
+      const event = JSON.parse(q.event) as ScrapedEvent;
+      return { id: q.event_id, source_name: event.source_name, source_url: event.source_url, title_ja: event.title_ja, quarantined: true };
+    }),
+  ];
+}
+
+/**
+ * Move an event (or quarantine entry) and everything keyed by its ID to a
+ * new ID, and keep the old one as an alias. When the new ID is already
+ * saved, the old row is a stale copy and is dropped. Returns false when
+ * nothing is stored under the old ID.
+ */
+function renameEventSqlite(oldId: string, newId: string): boolean {
+  const db = initSqlite();
+  const inEvents = !!db.prepare("SELECT 1 FROM events WHERE id = ?").get(oldId);
+  const inQuarantine = !!db.prepare("SELECT 1 FROM quarantine WHERE event_id = ?").get(oldId);
+  if (!inEvents && !inQuarantine) return false;
+
+  db.transaction(() => {
+    // performances reference events(id); checked once everything has moved
+    db.pragma("defer_foreign_keys = ON");
+    if (inEvents && db.prepare("SELECT 1 FROM events WHERE id = ?").get(newId)) {
+      db.prepare("DELETE FROM performances WHERE event_id = ?").run(oldId);
+      db.prepare("DELETE FROM events WHERE id = ?").run(oldId);
+    } else if (inEvents) {
+      db.prepare("UPDATE events SET id = ? WHERE id = ?").run(newId, oldId);
+      db.prepare("UPDATE performances SET event_id = ? WHERE event_id = ?").run(newId, oldId);
+    }
+    db.prepare("UPDATE events SET canonical_id = ? WHERE canonical_id = ?").run(newId, oldId);
+    db.prepare("UPDATE event_revisions SET event_id = ? WHERE event_id = ?").run(newId, oldId);
+
+    // Rows already under the new ID win
+    db.prepare("UPDATE OR IGNORE event_details SET event_id = ? WHERE event_id = ?").run(newId, oldId);
+    db.prepare("DELETE FROM event_details WHERE event_id = ?").run(oldId);
+    db.prepare("UPDATE OR IGNORE quarantine SET event_id = ?, event = json_set(event, '$.id', ?) WHERE event_id = ?").run(
+      newId,
+      newId,
+      oldId
+    );
+    db.prepare("DELETE FROM quarantine WHERE event_id = ?").run(oldId);
+
+    db.prepare("UPDATE event_aliases SET event_id = ? WHERE event_id = ?").run(newId, oldId);
+    db.prepare("INSERT OR REPLACE INTO event_aliases (alias, event_id) VALUES (?, ?)").run(oldId, newId);
+  })();
+  return true;
+}
+
+// Sources' own rows still running on or after the given date
+function getRawEventsSqlite(since: string): Event[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT * FROM events WHERE ticket_links IS NULL AND COALESCE(date_end, date_start) >= ? ORDER BY date_start")
+    .all(since) as Record<string, unknown>[];
+  return rows.map(parseEventFromSqlite);
+}
+
+function setCanonicalIdSqlite(eventIds: string[], canonicalId: string | null): void {
+  const db = initSqlite();
+  const stmt = db.prepare("UPDATE events SET canonical_id = ? WHERE id = ?");
+  db.transaction(() => {
+    for (const id of eventIds) stmt.run(canonicalId, id);
+  })();
+}
+
+function retireCanonicalSqlite(canonicalId: string, redirectTo: string): void {
+  const db = initSqlite();
+  db.transaction(() => {
+    db.prepare("UPDATE events SET canonical_id = NULL WHERE canonical_id = ?").run(canonicalId);
+    db.prepare("DELETE FROM performances WHERE event_id = ?").run(canonicalId);
+    db.prepare("DELETE FROM event_details WHERE event_id = ?").run(canonicalId);
+    db.prepare("DELETE FROM events WHERE id = ?").run(canonicalId);
+    db.prepare("UPDATE event_aliases SET event_id = ? WHERE event_id = ?").run(redirectTo, canonicalId);
+    db.prepare("INSERT OR REPLACE INTO event_aliases (alias, event_id) VALUES (?, ?)").run(canonicalId, redirectTo);
+  })();
+}
+
+function markMissingEventsSqlite(
+  sourceName: string,
+  seenIds: string[],
+  through: string,
+  threshold: number,
+  runId: number | null
+): number {
+  const db = initSqlite();
+  const today = new Date().toISOString().split("T")[0];
+  const seen = new Set(seenIds);
+  const missing = (
+    db
+      .prepare(`
+        SELECT id, status, missed_runs FROM events
+        WHERE source_name = ? AND ticket_links IS NULL AND status IN ('active', 'postponed')
+          AND COALESCE(date_end, date_start) >= ? AND date_start <= ?
+      `)
+      .all(sourceName, today, through) as { id: string; status: EventStatus; missed_runs: number }[]
+  ).filter((row) => !seen.has(row.id));
+
+  const stmt = db.prepare(
+    "UPDATE events SET missed_runs = @missed, status = CASE WHEN @missed >= @threshold THEN 'disappeared' ELSE status END WHERE id = @id"
+  );
+  db.transaction(() => {
+    for (const row of missing) {
+      stmt.run({ id: row.id, missed: row.missed_runs + 1, threshold });
+      if (row.missed_runs + 1 >= threshold) {
+        addEventRevisionSqlite(row.id, runId, sourceName, [{ field: "status", old: row.status, new: "disappeared" }]);
+      }
+    }
+  })();
+  return missing.filter((row) => row.missed_runs + 1 >= threshold).length;
+}
+
+function getEventAliasSqlite(alias: string): string | null {
+  const db = initSqlite();
+  const row = db.prepare("SELECT event_id FROM event_aliases WHERE alias = ?").get(alias) as
+    | { event_id: string }
+    | undefined;
+  return row?.event_id ?? null;
+}
+
+function parseRunSourceFromSqlite(row: Record<string, unknown>): ScrapeRunSource {
+  return {
+    ...(row as unknown as Omit<ScrapeRunSource, "not_modified" | "errors" | "warnings">),
+    not_modified: !!row.not_modified,
+    errors: row.errors ? JSON.parse(row.errors as string) : [],
+    warnings: row.warnings ? JSON.parse(row.warnings as string) : [],
+  };
+}
+
+function startScrapeRunSqlite(trigger: ScrapeTrigger, startedAt: string): number {
+  const db = initSqlite();
+  const info = db
+    .prepare("INSERT INTO scrape_runs (trigger, started_at) VALUES (?, ?)")
+    .run(trigger, startedAt);
+  return Number(info.lastInsertRowid);
+}
+
+function addScrapeRunSourceSqlite(source: Omit<ScrapeRunSource, "id">): void {
+  const db = initSqlite();
+  db.prepare(`
+    INSERT INTO scrape_run_sources (
+      run_id, source, source_name, started_at, finished_at, duration_ms,
+      events_found, inserted, updated, unchanged, not_modified,
+      dates_parsed, venues_found, quarantined, errors, warnings
+    ) VALUES (
+      @run_id, @source, @source_name, @started_at, @finished_at, @duration_ms,
+      @events_found, @inserted, @updated, @unchanged, @not_modified,
+      @dates_parsed, @venues_found, @quarantined, @errors, @warnings
+    )
+  `).run({
+    ...source,
+    not_modified: source.not_modified ? 1 : 0,
+    errors: JSON.stringify(source.errors),
+    warnings: JSON.stringify(source.warnings),
+  });
+}
+
+function finishScrapeRunSqlite(run: Omit<ScrapeRun, "trigger" | "started_at">): void {
+  const db = initSqlite();
+  db.prepare(`
+    UPDATE scrape_runs SET
+      finished_at = @finished_at, events_found = @events_found,
+      inserted = @inserted, updated = @updated, unchanged = @unchanged,
+      error_count = @error_count
+    WHERE id = @id
+  `).run(run);
+}
+
+function getScrapeRunSourcesSqlite(runIds: number[], source?: string): ScrapeRunSource[] {
+  if (runIds.length === 0) return [];
+  const db = initSqlite();
+  const placeholders = runIds.map(() => "?").join(", ");
+  const sourceClause = source ? "AND source = ?" : "";
+  const rows = db
+    .prepare(`SELECT * FROM scrape_run_sources WHERE run_id IN (${placeholders}) ${sourceClause} ORDER BY id`)
+    .all(...runIds, ...(source ? [source] : [])) as Record<string, unknown>[];
+  return rows.map(parseRunSourceFromSqlite);
+}
+
+function getScrapeRunsSqlite(filters: ScrapeRunFilters): ScrapeRunWithSources[] {
+  const db = initSqlite();
+  const { source, trigger, limit = 20 } = filters;
+
+  const conditions: string[] = [];
+  const params: Record<string, string | number> = { limit };
+
+  if (source) {
+    conditions.push("id IN (SELECT run_id FROM scrape_run_sources WHERE source = @source)");
+    params.source = source;
+  }
+  if (trigger) {
+    conditions.push("trigger = @trigger");
+    params.trigger = trigger;
+  }
+
+  const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const runs = db
+    .prepare(`SELECT * FROM scrape_runs ${whereClause} ORDER BY id DESC LIMIT @limit`)
+    .all(params) as ScrapeRun[];
+
+  const sources = getScrapeRunSourcesSqlite(runs.map((r) => r.id), source);
+  return runs.map((run) => ({ ...run, sources: sources.filter((s) => s.run_id === run.id) }));
+}
+
+// Most recent completed results for a source, newest first (304 skips excluded)
+function getRecentSourceRunsSqlite(source: string, limit: number): ScrapeRunSource[] {
+  const db = initSqlite();
+  const rows = db
+    .prepare("SELECT * FROM scrape_run_sources WHERE source = ? AND not_modified = 0 ORDER BY id DESC LIMIT ?")
+    .all(source, limit) as Record<string, unknown>[];
+  return rows.map(parseRunSourceFromSqlite);
+}
+
+function getScrapeRunByIdSqlite(id: number): ScrapeRunWithSources | null {
+  const db = initSqlite();
+  const run = db.prepare("SELECT * FROM scrape_runs WHERE id = ?").get(id) as ScrapeRun | undefined;
+  return run ? { ...run, sources: getScrapeRunSourcesSqlite([id]) } : null;
+}
+
+// ============ Supabase implementations ============
+
+async function getEventsSupabase(filters: EventFilters): Promise<{ events: Event[]; total: number }> {
+  const supabase = getSupabase();
+  const { startDate, endDate, timeFrom, timeTo, area, category, venueId, view, ticketStatus, status, search, source } =
+    filters;
+  const { page = 1, limit = 20 } = filters;
+  const offset = (page - 1) * limit;
+
+  // Showtimes are embedded (inner join) only to filter on them
+  const byShowtime = Boolean(timeFrom || timeTo);
+  const columns: string = byShowtime ? "*, performances!inner(start_time)" : "*";
+  let query = supabase
+    .from("events")
+    .select(columns, { count: "exact" })
+    .is(view === "raw" ? "ticket_links" : "canonical_id", null);
+
+  if (startDate) {
+    query = query.gte("date_start", startDate);
+  }
+  if (endDate) {
+    query = query.or(`date_end.lte.${endDate},and(date_end.is.null,date_start.lte.${endDate})`);
+  }
+  if (timeFrom) {
+    query = query.gte("performances.start_time", timeFrom);
+  }
+  if (timeTo) {
+    query = query.lte("performances.start_time", timeTo);
+  }
+  // A showtime within the dates asked for (one without a date runs every day)
+  if (byShowtime && startDate) {
+    query = query.or(`date.is.null,date.gte.${startDate}`, { referencedTable: "performances" });
+  }
+  if (byShowtime && endDate) {
+    query = query.or(`date.is.null,date.lte.${endDate}`, { referencedTable: "performances" });
+  }
+  if (area) {
+    const areas = areaWithDescendants(area);
+    query = areas.length > 0 ? query.in("area", areas) : query.ilike("area", area);
+  }
+  if (category) {
+    const categories = categoryWithDescendants(category);
+    query = categories.length > 0 ? query.overlaps("categories", categories) : query.ilike("category", category);
+  }
+  if (venueId) {
+    query = query.eq("venue_id", venueId);
+  }
+  if (ticketStatus && ticketStatus.length > 0) {
+    query = query.in("ticket_status", ticketStatus);
+  }
+  if (status && status.length > 0) {
+    query = query.in("status", status);
+  }
+  if (source && view === "raw") {
+    query = query.ilike("source_name", source);
+  } else if (source) {
+    // A canonical event's source_name lists its sources joined by " / " (see resolve.ts)
+    const names = [source, `${source} / %`, `% / ${source}`, `% / ${source} / %`];
+    query = query.or(names.map((name) => `source_name.ilike.${name}`).join(","));
+  }
+  if (search) {
+    query = query.or(
+      `title_ja.ilike.%${search}%,title_en.ilike.%${search}%,description_ja.ilike.%${search}%,description_en.ilike.%${search}%`
+    );
+  }
+
+  const { data, count, error } = await query
+    .order("date_start", { ascending: true })
+    .range(offset, offset + limit - 1);
+
+  if (error) {
+    console.error("Supabase error:", error);
+    throw error;
+  }
+
+  // The embed holds only the matching showtimes, so it isn't passed on
+  const rows = (data || []) as unknown as (Event & { performances?: unknown })[];
+  for (const row of rows) delete row.performances;
+
+  return {
+    events: rows as Event[],
+    total: count || 0,
+  };
+}
+
+async function getEventByIdSupabase(id: string): Promise<Event | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("events")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null; // Not found
+    throw error;
+  }
+
+  return data as Event;
+}
+
+async function getPerformancesSupabase(eventId: string): Promise<Performance[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("performances")
+    .select("date, open_time, start_time, label, program")
+    .eq("event_id", eventId);
+
+  if (error) throw error;
+  return normalizePerformances((data || []) as Performance[]);
+}
+
+async function replacePerformancesSupabase(eventId: string, performances: Performance[]): Promise<void> {
+  const supabase = getSupabase();
+  const { error: deleteError } = await supabase.from("performances").delete().eq("event_id", eventId);
+  if (deleteError) throw deleteError;
+
+  if (performances.length === 0) return;
+
+  const rows = normalizePerformances(performances).map((p) => ({ ...p, event_id: eventId }));
+  const { error } = await supabase.from("performances").insert(rows);
+  if (error) {
+    console.error("Supabase performances insert error:", error);
+    throw error;
+  }
+}
+
+async function addEventRevisionSupabase(
+  eventId: string,
+  runId: number | null,
+  source: string,
+  changes: FieldChange[]
+): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase
+    .from("event_revisions")
+    .insert({ event_id: eventId, run_id: runId, source, changes, created_at: new Date().toISOString() });
+  if (error) {
+    console.error("Supabase revision insert error:", error);
+    throw error;
+  }
+}
+
+async function getEventRevisionsSupabase(eventId: string, limit: number): Promise<EventRevision[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("event_revisions")
+    .select("*")
+    .eq("event_id", eventId)
+    .order("id", { ascending: false })
+    .limit(limit);
+  if (error) throw error;
+  return (data || []) as EventRevision[];
+}
+
+async function getRunRevisionsSupabase(runId: number, source?: string): Promise<EventRevision[]> {
+  const supabase = getSupabase();
+  const revisions: EventRevision[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    let query = supabase.from("event_revisions").select("*").eq("run_id", runId);
+    if (source) {
+      query = query.eq("source", source);
+    }
+    const { data, error } = await query.order("id").range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    revisions.push(...((data || []) as EventRevision[]));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return revisions;
+}
+
+async function upsertEventSupabase(input: EventInput, runId: number | null): Promise<UpsertOutcome> {
+  const { performances, legacy_id: legacyId, ...fields } = input;
+  const event = withSighting(withTicketDefaults(withArea(fields)));
+  const supabase = getSupabase();
+  if (legacyId && legacyId !== event.id && !(await getEventByIdSupabase(event.id))) {
+    await renameEventSupabase(legacyId, event.id);
+  }
+  const existing = await getEventByIdSupabase(event.id);
+  const stored = performances !== undefined ? await getPerformancesSupabase(event.id) : [];
+  const performancesChanged = performances !== undefined && !samePerformances(stored, performances);
+  const changes = diffEvent(existing, event, performancesChanged ? { old: stored, new: performances } : null);
+  if (existing && changes.length === 0) {
+    const { error } = await supabase
+      .from("events")
+      .update({ last_seen_at: event.last_seen_at, missed_runs: 0 })
+      .eq("id", event.id);
+    if (error) throw error;
+    return "unchanged";
+  }
+
+  const { error } = await supabase
+    .from("events")
+    .upsert({
+      ...event,
+      missed_runs: 0,
+      updated_at: new Date().toISOString(),
+    });
+
+  if (error) {
+    console.error("Supabase upsert error:", error);
+    throw error;
+  }
+
+  if (performancesChanged) {
+    await replacePerformancesSupabase(event.id, performances);
+  }
+  if (changes.length > 0) {
+    await addEventRevisionSupabase(event.id, runId, event.source_name, changes);
+  }
+
+  return existing ? "updated" : "inserted";
+}
+
+// Same as upsertVenuesSqlite: stored details survive a scrape that lacks them
+async function upsertVenuesSupabase(venues: Venue[]): Promise<void> {
+  if (venues.length === 0) return;
+
+  const supabase = getSupabase();
+  const { data, error: fetchError } = await supabase.from("venues").select("*").in("id", venues.map((v) => v.id));
+  if (fetchError) throw fetchError;
+
+  const stored = new Map(((data || []) as Venue[]).map((v) => [v.id, v]));
+  const rows = venues.map((venue) => {
+    const existing = stored.get(venue.id);
+    if (!existing) return venue;
+    const merged = { ...venue };
+    for (const key of Object.keys(venue) as (keyof Venue)[]) {
+      if (merged[key] === null) (merged as Record<string, unknown>)[key] = existing[key];
+    }
+    return merged;
+  });
+
+  const { error } = await supabase.from("venues").upsert(rows);
+  if (error) {
+    console.error("Supabase venue upsert error:", error);
+    throw error;
+  }
+}
+
+async function getVenuesSupabase(prefecture?: string): Promise<Venue[]> {
+  const supabase = getSupabase();
+  let query = supabase.from("venues").select("*");
+  if (prefecture) {
+    query = query.eq("prefecture", prefecture);
+  }
+  const { data, error } = await query.order("name_ja");
+  if (error) throw error;
+  return (data || []) as Venue[];
+}
+
+async function getVenueByIdSupabase(id: string): Promise<Venue | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from("venues").select("*").eq("id", id).single();
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw error;
+  }
+  return data as Venue;
+}
+
+async function getCategoriesSupabase(): Promise<CategoryNode[]> {
+  const supabase = getSupabase();
+  const eventCategories: string[][] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("category, categories")
+      .is("canonical_id", null)
+      .neq("status", "disappeared")
+      .order("id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const row of data || []) eventCategories.push(row.categories ?? [row.category]);
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return buildCategoryTree(eventCategories);
+}
+
+// Seeded with the defaults whenever the table is empty
+async function getCategoryRulesSupabase(): Promise<CategoryRule[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("category_rules")
+    .select("*")
+    .order("priority", { ascending: false })
+    .order("id");
+  if (error) throw error;
+  if (data && data.length > 0) return data as CategoryRule[];
+
+  const { error: seedError } = await supabase.from("category_rules").insert(DEFAULT_RULES);
+  if (seedError) {
+    console.error("Supabase category rule insert error:", seedError);
+    throw seedError;
+  }
+  return getCategoryRulesSupabase();
+}
+
+async function getCategoryRuleSupabase(id: number): Promise<CategoryRule | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from("category_rules").select("*").eq("id", id).single();
+  if (error) {
+    if (error.code === "PGRST116") return null;
+    throw error;
+  }
+  return data as CategoryRule;
+}
+
+async function createCategoryRuleSupabase(rule: CategoryRuleInput): Promise<CategoryRule> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from("category_rules").insert(rule).select().single();
+  if (error) {
+    console.error("Supabase category rule insert error:", error);
+    throw error;
+  }
+  return data as CategoryRule;
+}
+
+async function updateCategoryRuleSupabase(id: number, changes: Partial<CategoryRuleInput>): Promise<CategoryRule | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("category_rules")
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq("id", id)
+    .select();
+  if (error) throw error;
+  return data && data.length > 0 ? (data[0] as CategoryRule) : null;
+}
+
+async function deleteCategoryRuleSupabase(id: number): Promise<boolean> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase.from("category_rules").delete().eq("id", id).select("id");
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function setEventCategoriesSupabase(event: Event, category: string, categories: string[]): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase
+    .from("events")
+    .update({ category, categories, updated_at: new Date().toISOString() })
+    .eq("id", event.id);
+  if (error) throw error;
+  await addEventRevisionSupabase(event.id, null, event.source_name, [
+    { field: "category", old: event.category, new: category },
+    { field: "categories", old: event.categories, new: categories },
+  ]);
+}
+
+async function getAreasSupabase(): Promise<AreaNode[]> {
+  const supabase = getSupabase();
+  const counts: Record<string, number> = {};
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("area")
+      .is("canonical_id", null)
+      .neq("status", "disappeared")
+      .order("id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const { area } of data || []) counts[area] = (counts[area] ?? 0) + 1;
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return buildAreaTree(counts);
 }
 
 async function getSourcesSupabase(): Promise<string[]> {
   const supabase = getSupabase();
   const { data, error } = await supabase
-    .from("events")
-    .select("source_name")
-    .order("source_name");
+    .from("events")
+    .select("source_name")
+    .is("ticket_links", null)
+    .order("source_name");
+
+  if (error) throw error;
+
+  const sources = [...new Set((data || []).map((r) => r.source_name))];
+  return sources;
+}
+
+async function getHttpCacheEntriesSupabase(source: string): Promise<HttpCacheEntry[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("http_cache")
+    .select("*")
+    .eq("source", source);
+
+  if (error) throw error;
+  return (data || []) as HttpCacheEntry[];
+}
+
+async function putHttpCacheEntrySupabase(entry: HttpCacheEntry): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase.from("http_cache").upsert(entry);
+
+  if (error) {
+    console.error("Supabase http_cache upsert error:", error);
+    throw error;
+  }
+}
+
+async function pruneHttpCacheSupabase(source: string, keepUrls: string[]): Promise<void> {
+  const supabase = getSupabase();
+  const keep = new Set(keepUrls);
+  const entries = await getHttpCacheEntriesSupabase(source);
+  const remove = entries.map((e) => e.url).filter((url) => !keep.has(url));
+
+  if (remove.length === 0) return;
+
+  const { error } = await supabase.from("http_cache").delete().in("url", remove);
+  if (error) throw error;
+}
+
+async function getEventDetailsSupabase(eventIds: string[]): Promise<EventDetailsEntry[]> {
+  if (eventIds.length === 0) return [];
+
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("event_details")
+    .select("*")
+    .in("event_id", eventIds);
+
+  if (error) throw error;
+  return (data || []) as EventDetailsEntry[];
+}
+
+async function putEventDetailsSupabase(entry: EventDetailsEntry): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase.from("event_details").upsert(entry);
+
+  if (error) {
+    console.error("Supabase event_details upsert error:", error);
+    throw error;
+  }
+}
+
+async function getQuarantineSupabase(filters: QuarantineFilters): Promise<QuarantineEntry[]> {
+  const supabase = getSupabase();
+  const { source, status, limit = 100 } = filters;
+
+  let query = supabase.from("quarantine").select("*");
+  if (source) {
+    query = query.eq("source", source);
+  }
+  if (status) {
+    query = query.eq("status", status);
+  }
+
+  const { data, error } = await query.order("last_seen_at", { ascending: false }).limit(limit);
+  if (error) throw error;
+  return (data || []) as QuarantineEntry[];
+}
+
+async function getQuarantineEntrySupabase(eventId: string): Promise<QuarantineEntry | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("quarantine")
+    .select("*")
+    .eq("event_id", eventId)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null; // Not found
+    throw error;
+  }
+
+  return data as QuarantineEntry;
+}
+
+async function putQuarantineSightingSupabase(sighting: QuarantineSighting): Promise<void> {
+  const supabase = getSupabase();
+  const existing = await getQuarantineEntrySupabase(sighting.event_id);
+  const { error } = await supabase
+    .from("quarantine")
+    .upsert({ ...sighting, first_seen_at: existing?.first_seen_at ?? sighting.last_seen_at });
+
+  if (error) {
+    console.error("Supabase quarantine upsert error:", error);
+    throw error;
+  }
+}
+
+async function updateQuarantineReviewSupabase(
+  eventId: string,
+  review: Pick<QuarantineEntry, "status" | "fixes">
+): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase.from("quarantine").update(review).eq("event_id", eventId);
+  if (error) throw error;
+}
+
+async function deleteQuarantineEntrySupabase(eventId: string): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase.from("quarantine").delete().eq("event_id", eventId);
+  if (error) throw error;
+}
+
+// Supabase returns at most this many rows per request
+const SUPABASE_PAGE_SIZE = 1000;
+
+async function getEventIdentitiesSupabase(): Promise<EventIdentity[]> {
+  const supabase = getSupabase();
+  const identities: EventIdentity[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("id, source_name, source_url, title_ja")
+      .order("id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    identities.push(...(data || []).map((e) => ({ ...e, quarantined: false })));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("quarantine")
+      .select("event_id, event")
+      .order("event_id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    for (const { event_id, event } of (data || []) as { event_id: string; event: ScrapedEvent }[]) {
+      identities.push({ id: event_id, source_name: event.source_name, source_url: event.source_url, title_ja: event.title_ja, quarantined: true });
+    }
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return identities;
+}
+
+// Same as renameEventSqlite; the event is copied before its old row is
+// deleted, since foreign keys may not cascade ID updates
+async function renameEventSupabase(oldId: string, newId: string): Promise<boolean> {
+  const supabase = getSupabase();
+  const existing = await getEventByIdSupabase(oldId);
+  const quarantined = await getQuarantineEntrySupabase(oldId);
+  if (!existing && !quarantined) return false;
+
+  if (existing) {
+    if (!(await getEventByIdSupabase(newId))) {
+      const { error: insertError } = await supabase.from("events").insert({ ...existing, id: newId });
+      if (insertError) throw insertError;
+      const { error: moveError } = await supabase.from("performances").update({ event_id: newId }).eq("event_id", oldId);
+      if (moveError) throw moveError;
+    }
+    const { error: performancesError } = await supabase.from("performances").delete().eq("event_id", oldId);
+    if (performancesError) throw performancesError;
+    const { error: membersError } = await supabase.from("events").update({ canonical_id: newId }).eq("canonical_id", oldId);
+    if (membersError) throw membersError;
+    const { error: revisionsError } = await supabase.from("event_revisions").update({ event_id: newId }).eq("event_id", oldId);
+    if (revisionsError) throw revisionsError;
+    const { error } = await supabase.from("events").delete().eq("id", oldId);
+    if (error) throw error;
+  }
+
+  const [oldDetails, newDetails] = await Promise.all([getEventDetailsSupabase([oldId]), getEventDetailsSupabase([newId])]);
+  if (oldDetails.length > 0) {
+    const { error } = newDetails.length > 0
+      ? await supabase.from("event_details").delete().eq("event_id", oldId)
+      : await supabase.from("event_details").update({ event_id: newId }).eq("event_id", oldId);
+    if (error) throw error;
+  }
+
+  if (quarantined) {
+    const { error } = (await getQuarantineEntrySupabase(newId))
+      ? await supabase.from("quarantine").delete().eq("event_id", oldId)
+      : await supabase
+          .from("quarantine")
+          .update({ event_id: newId, event: { ...quarantined.event, id: newId } })
+          .eq("event_id", oldId);
+    if (error) throw error;
+  }
+
+  const { error: chainError } = await supabase.from("event_aliases").update({ event_id: newId }).eq("event_id", oldId);
+  if (chainError) throw chainError;
+  const { error } = await supabase.from("event_aliases").upsert({ alias: oldId, event_id: newId });
+  if (error) {
+    console.error("Supabase alias upsert error:", error);
+    throw error;
+  }
+  return true;
+}
+
+async function getRawEventsSupabase(since: string): Promise<Event[]> {
+  const supabase = getSupabase();
+  const events: Event[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("*")
+      .is("ticket_links", null)
+      .or(`date_end.gte.${since},and(date_end.is.null,date_start.gte.${since})`)
+      .order("date_start")
+      .order("id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    events.push(...((data || []) as Event[]));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  return events;
+}
+
+async function setCanonicalIdSupabase(eventIds: string[], canonicalId: string | null): Promise<void> {
+  if (eventIds.length === 0) return;
+
+  const supabase = getSupabase();
+  const { error } = await supabase.from("events").update({ canonical_id: canonicalId }).in("id", eventIds);
+  if (error) throw error;
+}
+
+async function retireCanonicalSupabase(canonicalId: string, redirectTo: string): Promise<void> {
+  const supabase = getSupabase();
+  const { error: membersError } = await supabase.from("events").update({ canonical_id: null }).eq("canonical_id", canonicalId);
+  if (membersError) throw membersError;
+  const { error: performancesError } = await supabase.from("performances").delete().eq("event_id", canonicalId);
+  if (performancesError) throw performancesError;
+  const { error: detailsError } = await supabase.from("event_details").delete().eq("event_id", canonicalId);
+  if (detailsError) throw detailsError;
+  const { error: deleteError } = await supabase.from("events").delete().eq("id", canonicalId);
+  if (deleteError) throw deleteError;
+
+  const { error: chainError } = await supabase.from("event_aliases").update({ event_id: redirectTo }).eq("event_id", canonicalId);
+  if (chainError) throw chainError;
+  const { error } = await supabase.from("event_aliases").upsert({ alias: canonicalId, event_id: redirectTo });
+  if (error) throw error;
+}
+
+async function markMissingEventsSupabase(
+  sourceName: string,
+  seenIds: string[],
+  through: string,
+  threshold: number,
+  runId: number | null
+): Promise<number> {
+  const supabase = getSupabase();
+  const today = new Date().toISOString().split("T")[0];
+  const seen = new Set(seenIds);
+  const missing: { id: string; status: EventStatus; missed_runs: number }[] = [];
+
+  for (let from = 0; ; from += SUPABASE_PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from("events")
+      .select("id, status, missed_runs")
+      .eq("source_name", sourceName)
+      .is("ticket_links", null)
+      .in("status", ["active", "postponed"])
+      .or(`date_end.gte.${today},and(date_end.is.null,date_start.gte.${today})`)
+      .lte("date_start", through)
+      .order("id")
+      .range(from, from + SUPABASE_PAGE_SIZE - 1);
+    if (error) throw error;
+    missing.push(...(data || []).filter((row) => !seen.has(row.id)));
+    if (!data || data.length < SUPABASE_PAGE_SIZE) break;
+  }
+
+  let disappeared = 0;
+  for (const row of missing) {
+    const missed = row.missed_runs + 1;
+    const { error } = await supabase
+      .from("events")
+      .update(missed >= threshold ? { missed_runs: missed, status: "disappeared" } : { missed_runs: missed })
+      .eq("id", row.id);
+    if (error) throw error;
+    if (missed >= threshold) {
+      await addEventRevisionSupabase(row.id, runId, sourceName, [{ field: "status", old: row.status, new: "disappeared" }]);
+      disappeared++;
+    }
+  }
+  return disappeared;
+}
+
+async function getEventAliasSupabase(alias: string): Promise<string | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("event_aliases")
+    .select("event_id")
+    .eq("alias", alias)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null; // Not found
+    throw error;
+  }
+
+  return data.event_id as string;
+}
+
+async function startScrapeRunSupabase(trigger: ScrapeTrigger, startedAt: string): Promise<number> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("scrape_runs")
+    .insert({ trigger, started_at: startedAt })
+    .select("id")
+    .single();
 
   if (error) throw error;
+  return data.id as number;
+}
 
-  const sources = [...new Set((data || []).map((r) => r.source_name))];
-  return sources;
+async function addScrapeRunSourceSupabase(source: Omit<ScrapeRunSource, "id">): Promise<void> {
+  const supabase = getSupabase();
+  const { error } = await supabase.from("scrape_run_sources").insert(source);
+  if (error) throw error;
+}
+
+async function finishScrapeRunSupabase(run: Omit<ScrapeRun, "trigger" | "started_at">): Promise<void> {
+  const supabase = getSupabase();
+  const { id, ...fields } = run;
+  const { error } = await supabase.from("scrape_runs").update(fields).eq("id", id);
+  if (error) throw error;
+}
+
+async function getScrapeRunSourcesSupabase(runIds: number[], source?: string): Promise<ScrapeRunSource[]> {
+  if (runIds.length === 0) return [];
+  const supabase = getSupabase();
+
+  let query = supabase.from("scrape_run_sources").select("*").in("run_id", runIds);
+  if (source) {
+    query = query.eq("source", source);
+  }
+
+  const { data, error } = await query.order("id");
+  if (error) throw error;
+  return (data || []) as ScrapeRunSource[];
+}
+
+async function getScrapeRunsSupabase(filters: ScrapeRunFilters): Promise<ScrapeRunWithSources[]> {
+  const supabase = getSupabase();
+  const { source, trigger, limit = 20 } = filters;
+
+  let query = supabase.from("scrape_runs").select("*");
+
+  if (source) {
+    const { data, error } = await supabase
+      .from("scrape_run_sources")
+      .select("run_id")
+      .eq("source", source)
+      .order("run_id", { ascending: false })
+      .limit(limit);
+    if (error) throw error;
+    query = query.in("id", (data || []).map((r) => r.run_id));
+  }
+  if (trigger) {
+    query = query.eq("trigger", trigger);
+  }
+
+  const { data, error } = await query.order("id", { ascending: false }).limit(limit);
+  if (error) throw error;
+
+  const runs = (data || []) as ScrapeRun[];
+  const sources = await getScrapeRunSourcesSupabase(runs.map((r) => r.id), source);
+  return runs.map((run) => ({ ...run, sources: sources.filter((s) => s.run_id === run.id) }));
+}
+
+async function getRecentSourceRunsSupabase(source: string, limit: number): Promise<ScrapeRunSource[]> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("scrape_run_sources")
+    .select("*")
+    .eq("source", source)
+    .eq("not_modified", false)
+    .order("id", { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return (data || []) as ScrapeRunSource[];
+}
+
+async function getScrapeRunByIdSupabase(id: number): Promise<ScrapeRunWithSources | null> {
+  const supabase = getSupabase();
+  const { data, error } = await supabase
+    .from("scrape_runs")
+    .select("*")
+    .eq("id", id)
+    .single();
+
+  if (error) {
+    if (error.code === "PGRST116") return null; // Not found
+    throw error;
+  }
+
+  return { ...(data as ScrapeRun), sources: await getScrapeRunSourcesSupabase([id]) };
 }
 
 // ============ Exported functions ============
@@ -358,21 +2103,21 @@ export function getEventById(id: string): Event | null {
   return getEventByIdSqlite(id);
 }
 
-export function upsertEvent(event: Omit<Event, "created_at" | "updated_at">): void {
+export function upsertEvent(event: EventInput, runId: number | null = null): UpsertOutcome {
   if (useSupabase) {
     throw new Error("Use upsertEventAsync() in production with Supabase");
   }
-  upsertEventSqlite(event);
+  return upsertEventSqlite(event, runId);
 }
 
-export function getCategories(): string[] {
+export function getCategories(): CategoryNode[] {
   if (useSupabase) {
     throw new Error("Use getCategoriesAsync() in production with Supabase");
   }
   return getCategoriesSqlite();
 }
 
-export function getAreas(): string[] {
+export function getAreas(): AreaNode[] {
   if (useSupabase) {
     throw new Error("Use getAreasAsync() in production with Supabase");
   }
@@ -401,21 +2146,114 @@ export async function getEventByIdAsync(id: string): Promise<Event | null> {
   return getEventByIdSqlite(id);
 }
 
-export async function upsertEventAsync(event: Omit<Event, "created_at" | "updated_at">): Promise<void> {
+// Changes to a saved event are recorded in event_revisions, under runId when given
+export async function upsertEventAsync(event: EventInput, runId: number | null = null): Promise<UpsertOutcome> {
+  if (useSupabase) {
+    return upsertEventSupabase(event, runId);
+  }
+  return upsertEventSqlite(event, runId);
+}
+
+export async function upsertVenuesAsync(venues: Venue[]): Promise<void> {
+  if (useSupabase) {
+    return upsertVenuesSupabase(venues);
+  }
+  upsertVenuesSqlite(venues);
+}
+
+export async function getVenuesAsync(prefecture?: string): Promise<Venue[]> {
+  if (useSupabase) {
+    return getVenuesSupabase(prefecture);
+  }
+  return getVenuesSqlite(prefecture);
+}
+
+export async function getVenueByIdAsync(id: string): Promise<Venue | null> {
+  if (useSupabase) {
+    return getVenueByIdSupabase(id);
+  }
+  return getVenueByIdSqlite(id);
+}
+
+// Newest first
+export async function getEventRevisionsAsync(eventId: string, limit = 100): Promise<EventRevision[]> {
   if (useSupabase) {
-    return upsertEventSupabase(event);
+    return getEventRevisionsSupabase(eventId, limit);
   }
-  upsertEventSqlite(event);
+  return getEventRevisionsSqlite(eventId, limit);
 }
 
-export async function getCategoriesAsync(): Promise<string[]> {
+// Changes recorded during a scrape run, optionally only one source's
+export async function getRunRevisionsAsync(runId: number, source?: string): Promise<EventRevision[]> {
+  if (useSupabase) {
+    return getRunRevisionsSupabase(runId, source);
+  }
+  return getRunRevisionsSqlite(runId, source);
+}
+
+export async function getPerformancesAsync(eventId: string): Promise<Performance[]> {
+  if (useSupabase) {
+    return getPerformancesSupabase(eventId);
+  }
+  return getPerformancesSqlite(eventId);
+}
+
+export async function getCategoriesAsync(): Promise<CategoryNode[]> {
   if (useSupabase) {
     return getCategoriesSupabase();
   }
   return getCategoriesSqlite();
 }
 
-export async function getAreasAsync(): Promise<string[]> {
+// Highest priority first
+export async function getCategoryRulesAsync(): Promise<CategoryRule[]> {
+  if (useSupabase) {
+    return getCategoryRulesSupabase();
+  }
+  return getCategoryRulesSqlite();
+}
+
+export async function getCategoryRuleAsync(id: number): Promise<CategoryRule | null> {
+  if (useSupabase) {
+    return getCategoryRuleSupabase(id);
+  }
+  return getCategoryRuleSqlite(id);
+}
+
+export async function createCategoryRuleAsync(rule: CategoryRuleInput): Promise<CategoryRule> {
+  if (useSupabase) {
+    return createCategoryRuleSupabase(rule);
+  }
+  return createCategoryRuleSqlite(rule);
+}
+
+// Returns null when there is no such rule
+export async function updateCategoryRuleAsync(
+  id: number,
+  changes: Partial<CategoryRuleInput>
+): Promise<CategoryRule | null> {
+  if (useSupabase) {
+    return updateCategoryRuleSupabase(id, changes);
+  }
+  return updateCategoryRuleSqlite(id, changes);
+}
+
+export async function deleteCategoryRuleAsync(id: number): Promise<boolean> {
+  if (useSupabase) {
+    return deleteCategoryRuleSupabase(id);
+  }
+  return deleteCategoryRuleSqlite(id);
+}
+
+// Reclassify a saved event, recording the change as a revision without a run
+export async function setEventCategoriesAsync(event: Event, category: string, categories: string[]): Promise<void> {
+  if (useSupabase) {
+    return setEventCategoriesSupabase(event, category, categories);
+  }
+  setEventCategoriesSqlite(event, category, categories);
+}
+
+export async function getAreasAsync(): Promise<AreaNode[]> {
   if (useSupabase) {
     return getAreasSupabase();
   }
@@ -429,6 +2267,192 @@ export async function getSourcesAsync(): Promise<string[]> {
   return getSourcesSqlite();
 }
 
+export async function getHttpCacheEntriesAsync(source: string): Promise<HttpCacheEntry[]> {
+  if (useSupabase) {
+    return getHttpCacheEntriesSupabase(source);
+  }
+  return getHttpCacheEntriesSqlite(source);
+}
+
+export async function putHttpCacheEntryAsync(entry: HttpCacheEntry): Promise<void> {
+  if (useSupabase) {
+    return putHttpCacheEntrySupabase(entry);
+  }
+  putHttpCacheEntrySqlite(entry);
+}
+
+// Drop cached pages a source no longer fetches (pass [] to clear the source)
+export async function pruneHttpCacheAsync(source: string, keepUrls: string[]): Promise<void> {
+  if (useSupabase) {
+    return pruneHttpCacheSupabase(source, keepUrls);
+  }
+  pruneHttpCacheSqlite(source, keepUrls);
+}
+
+export async function getEventDetailsAsync(eventIds: string[]): Promise<EventDetailsEntry[]> {
+  if (useSupabase) {
+    return getEventDetailsSupabase(eventIds);
+  }
+  return getEventDetailsSqlite(eventIds);
+}
+
+export async function putEventDetailsAsync(entry: EventDetailsEntry): Promise<void> {
+  if (useSupabase) {
+    return putEventDetailsSupabase(entry);
+  }
+  putEventDetailsSqlite(entry);
+}
+
+export async function getQuarantineAsync(filters: QuarantineFilters = {}): Promise<QuarantineEntry[]> {
+  if (useSupabase) {
+    return getQuarantineSupabase(filters);
+  }
+  return getQuarantineSqlite(filters);
+}
+
+export async function getQuarantineEntryAsync(eventId: string): Promise<QuarantineEntry | null> {
+  if (useSupabase) {
+    return getQuarantineEntrySupabase(eventId);
+  }
+  return getQuarantineEntrySqlite(eventId);
+}
+
+// Record a rejected event, keeping any earlier review (status, fixes)
+export async function putQuarantineSightingAsync(sighting: QuarantineSighting): Promise<void> {
+  if (useSupabase) {
+    return putQuarantineSightingSupabase(sighting);
+  }
+  putQuarantineSightingSqlite(sighting);
+}
+
+export async function updateQuarantineReviewAsync(
+  eventId: string,
+  review: Pick<QuarantineEntry, "status" | "fixes">
+): Promise<void> {
+  if (useSupabase) {
+    return updateQuarantineReviewSupabase(eventId, review);
+  }
+  updateQuarantineReviewSqlite(eventId, review);
+}
+
+export async function deleteQuarantineEntryAsync(eventId: string): Promise<void> {
+  if (useSupabase) {
+    return deleteQuarantineEntrySupabase(eventId);
+  }
+  deleteQuarantineEntrySqlite(eventId);
+}
+
+export async function getEventIdentitiesAsync(): Promise<EventIdentity[]> {
+  if (useSupabase) {
+    return getEventIdentitiesSupabase();
+  }
+  return getEventIdentitiesSqlite();
+}
+
+export async function renameEventAsync(oldId: string, newId: string): Promise<boolean> {
+  if (useSupabase) {
+    return renameEventSupabase(oldId, newId);
+  }
+  return renameEventSqlite(oldId, newId);
+}
+
+export async function getRawEventsAsync(since: string): Promise<Event[]> {
+  if (useSupabase) {
+    return getRawEventsSupabase(since);
+  }
+  return getRawEventsSqlite(since);
+}
+
+// Link sources' rows to their canonical event (null: unlink)
+export async function setCanonicalIdAsync(eventIds: string[], canonicalId: string | null): Promise<void> {
+  if (useSupabase) {
+    return setCanonicalIdSupabase(eventIds, canonicalId);
+  }
+  setCanonicalIdSqlite(eventIds, canonicalId);
+}
+
+/**
+ * Drop a canonical event nothing replaced: every row (however old) is
+ * detached so it stands alone until matched again, and links to it lead to
+ * `redirectTo`. Its revisions stay under its ID rather than being moved to
+ * a source's row.
+ */
+export async function retireCanonicalAsync(canonicalId: string, redirectTo: string): Promise<void> {
+  if (useSupabase) {
+    return retireCanonicalSupabase(canonicalId, redirectTo);
+  }
+  retireCanonicalSqlite(canonicalId, redirectTo);
+}
+
+/**
+ * Count a successful run of a source against its upcoming events that it
+ * didn't list (only up to `through`, the date every listing was read up to).
+ * Those missed by `threshold` runs in a row are marked disappeared; any
+ * sighting resets the count. Returns how many were marked this time.
+ */
+export async function markMissingEventsAsync(
+  sourceName: string,
+  seenIds: string[],
+  through: string,
+  threshold: number,
+  runId: number | null = null
+): Promise<number> {
+  if (useSupabase) {
+    return markMissingEventsSupabase(sourceName, seenIds, through, threshold, runId);
+  }
+  return markMissingEventsSqlite(sourceName, seenIds, through, threshold, runId);
+}
+
+// The event a former ID now belongs to, or null
+export async function getEventAliasAsync(alias: string): Promise<string | null> {
+  if (useSupabase) {
+    return getEventAliasSupabase(alias);
+  }
+  return getEventAliasSqlite(alias);
+}
+
+export async function startScrapeRunAsync(trigger: ScrapeTrigger, startedAt: string): Promise<number> {
+  if (useSupabase) {
+    return startScrapeRunSupabase(trigger, startedAt);
+  }
+  return startScrapeRunSqlite(trigger, startedAt);
+}
+
+export async function addScrapeRunSourceAsync(source: Omit<ScrapeRunSource, "id">): Promise<void> {
+  if (useSupabase) {
+    return addScrapeRunSourceSupabase(source);
+  }
+  addScrapeRunSourceSqlite(source);
+}
+
+export async function finishScrapeRunAsync(run: Omit<ScrapeRun, "trigger" | "started_at">): Promise<void> {
+  if (useSupabase) {
+    return finishScrapeRunSupabase(run);
+  }
+  finishScrapeRunSqlite(run);
+}
+
+export async function getScrapeRunsAsync(filters: ScrapeRunFilters = {}): Promise<ScrapeRunWithSources[]> {
+  if (useSupabase) {
+    return getScrapeRunsSupabase(filters);
+  }
+  return getScrapeRunsSqlite(filters);
+}
+
+export async function getScrapeRunByIdAsync(id: number): Promise<ScrapeRunWithSources | null> {
+  if (useSupabase) {
+    return getScrapeRunByIdSupabase(id);
+  }
+  return getScrapeRunByIdSqlite(id);
+}
+
+export async function getRecentSourceRunsAsync(source: string, limit = 10): Promise<ScrapeRunSource[]> {
+  if (useSupabase) {
+    return getRecentSourceRunsSupabase(source, limit);
+  }
+  return getRecentSourceRunsSqlite(source, limit);
+}
+
 // Utility exports
 export function getDatabaseMode(): "sqlite" | "supabase" {
   return useSupabase ? "supabase" : "sqlite";
@@ -0,0 +1,31 @@
+/**
+ * Whether an event is still going ahead
+ *
+ * - cancelled / postponed: the source says so (公演中止, 開催延期, "Cancelled")
+ * - disappeared: the source stopped listing it (see markMissingEventsAsync in db.ts)
+ *
+ * Conditional notices such as 雨天中止 or "中止の場合は払い戻し" don't count.
+ */
+
+export type EventStatus = "active" | "cancelled" | "postponed" | "disappeared";
+
+export const EVENT_STATUSES: EventStatus[] = ["active", "cancelled", "postponed", "disappeared"];
+
+// What happens if it's called off rather than news that it has been, and
+// the replacement date of an earlier postponement (延期公演)
+const NOT_NOTICES =
+  /(?:雨天|荒天|悪天候)(?:時は?)?(?:中止|延期)|(?:中止|延期)(?:・(?:中止|延期))?(?:の|と|に)?(?:なる|なった)?場合|(?:中止|延期)になることが|延期(?:公演|分)|(?:cancel(?:l)?ed|postponed) (?:in case|if)|may be (?:cancel(?:l)?ed|postponed)/gi;
+
+const STATUS_PATTERNS: [EventStatus, RegExp][] = [
+  ["cancelled", /中止|cancel(?:l)?ed/i],
+  ["postponed", /延期|postponed/i],
+];
+
+// Cancelled or postponed from a listing's title or text; null when it says neither
+export function detectEventStatus(text: string): EventStatus | null {
+  const normalized = text.normalize("NFKC").replace(NOT_NOTICES, " ");
+  for (const [status, pattern] of STATUS_PATTERNS) {
+    if (pattern.test(normalized)) return status;
+  }
+  return null;
+}
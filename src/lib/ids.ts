@@ -0,0 +1,64 @@
+/**
+ * Event IDs
+ *
+ * An event's ID is "<prefix>-<hash>", the hash being SHA-256 over the
+ * source's key and the event's normalized source URL (or another key the
+ * source guarantees unique, such as an iCalendar UID). It stays the same
+ * from run to run, and distinct events don't collide the way they could
+ * under the former 32-bit hash. Former IDs are kept as aliases
+ * (event_aliases in db.ts, scripts/migrate-ids.ts).
+ */
+
+import { createHash } from "crypto";
+
+const HASH_LENGTH = 16; // Hex digits, 64 bits
+
+// Query parameters that vary per visit rather than per event
+const TRACKING_PARAMS = /^(?:utm_\w+|fbclid|gclid|yclid|msclkid|_ga|_gl|mc_[ce]id)$/i;
+
+// Registry key for a source name, e.g. "Tokyo Cheapo" -> "tokyo-cheapo"
+export function sourceKey(sourceName: string): string {
+  return sourceName.toLowerCase().replace(/\s+/g, "-");
+}
+
+/**
+ * One spelling per page: no scheme, "www." or fragment, tracking
+ * parameters dropped, the rest sorted, no trailing slash. Anything that
+ * isn't an http(s) URL is only trimmed.
+ */
+export function normalizeUrl(value: string): string {
+  const trimmed = value.trim();
+  let url: URL;
+  try {
+    url = new URL(trimmed);
+  } catch {
+    return trimmed;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return trimmed;
+
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  url.searchParams.sort();
+
+  const host = url.hostname.replace(/^www\./, "") + (url.port ? `:${url.port}` : "");
+  const pathname = url.pathname.replace(/\/+$/, "");
+  return `${host}${pathname}${url.search}`;
+}
+
+export function stableEventId(prefix: string, source: string, unique: string): string {
+  const hash = createHash("sha256").update(`${source}\n${normalizeUrl(unique)}`).digest("hex");
+  return `${prefix}-${hash.slice(0, HASH_LENGTH)}`;
+}
+
+// The former scheme, for finding the rows an event was saved under before
+export function legacyEventId(prefix: string, unique: string): string {
+  const hash = unique
+    .split("")
+    .reduce((acc, char) => ((acc << 5) - acc + char.charCodeAt(0)) | 0, 0);
+  return `${prefix}-${Math.abs(hash).toString(36)}`;
+}
+
+export function isStableEventId(id: string): boolean {
+  return new RegExp(`-[0-9a-f]{${HASH_LENGTH}}$`).test(id);
+}
@@ -0,0 +1,143 @@
+/**
+ * Japanese ticket prices and sale status
+ *
+ * - Seat tiers and their prices: "S席 ¥18,000 / A席 12,000円", "1等席 18,000円",
+ *   "一般 1,500円（税込）", "学生割引 1,000円"
+ * - Sale status: 発売中, 完売, 抽選 and 先行 (with the application window),
+ *   発売前 / 一般発売 dates that haven't arrived yet
+ */
+
+import { parseJapaneseDateRange } from "./dates";
+
+export interface PriceTier {
+  name_ja: string; // "S席", "自由席", "一般"
+  name_en: string | null;
+  amount: number; // JPY
+  notes: string | null; // "学生割引", "税込", "ドリンク代別"
+}
+
+export type TicketStatus = "on_sale" | "sold_out" | "lottery" | "presale" | "not_on_sale";
+
+export const TICKET_STATUSES: TicketStatus[] = ["on_sale", "sold_out", "lottery", "presale", "not_on_sale"];
+
+export interface TicketInfo {
+  ticket_status: TicketStatus;
+  sale_start: string | null; // Lottery/pre-sale window, or when general sale opens
+  sale_end: string | null;
+}
+
+const MIN_AMOUNT = 100;
+const MAX_AMOUNT = 500000;
+
+// ¥18,000 or 18,000円, with an optional note in parentheses after it
+const AMOUNT = /(?:¥\s*([\d,]+)|([\d,]+)\s*円)(?:\s*\(([^()\d]{1,30})\))?/g;
+
+// Qualifiers that are notes on a tier rather than its name
+const QUALIFIERS = /(学生割引|学割|シニア割引|障がい者割引|早割|前売り?|当日|U-?\d{2}|ペア|税込|税別|ドリンク代別|1ドリンク付)/g;
+
+// Generic price headings, standing in for a tier name
+const GENERIC_NAMES = /^(?:料金|チケット料金|入場料|観覧料|鑑賞料|価格|price|prices|tickets?|admission|fee)$/i;
+
+const TIER_NAMES_EN: [RegExp, (m: RegExpMatchArray) => string][] = [
+  [/^(S{1,2}|[A-E])席$/, (m) => `${m[1]} seat`],
+  [/^([1-3一二三])等席$/, (m) => `${{ "1": "1st", 一: "1st", "2": "2nd", 二: "2nd", "3": "3rd", 三: "3rd" }[m[1]]} class seat`],
+  [/^自由席$/, () => "Unreserved seat"],
+  [/^(?:全席)?指定席?$/, () => "Reserved seat"],
+  [/^桟敷席$/, () => "Box seat"],
+  [/^幕見席?$/, () => "Single-act seat"],
+  [/^立見席?$/, () => "Standing"],
+  [/^アリーナ席?$/, () => "Arena"],
+  [/^スタンド席?$/, () => "Stand"],
+  [/^VIP席?$/i, () => "VIP"],
+  [/^一般$/, () => "General"],
+  [/^大人$/, () => "Adult"],
+  [/^大学生$/, () => "University student"],
+  [/^(?:高校生|中高生)$/, () => "High school student"],
+  [/^中学生$/, () => "Junior high student"],
+  [/^小学生$/, () => "Elementary student"],
+  [/^学生(?:割引)?$/, () => "Student"],
+  [/^(?:子供|子ども|小人)$/, () => "Child"],
+  [/^シニア$/, () => "Senior"],
+];
+
+function translateTierName(name: string): string | null {
+  for (const [pattern, translate] of TIER_NAMES_EN) {
+    const match = name.match(pattern);
+    if (match) return translate(match);
+  }
+  // English sources already name their tiers in English
+  return /^[\x20-\x7e]+$/.test(name) ? name : null;
+}
+
+// Every yen amount in the text, in order
+export function parseYenAmounts(text: string): number[] {
+  return [...text.normalize("NFKC").matchAll(AMOUNT)]
+    .map((m) => parseInt((m[1] ?? m[2]).replace(/,/g, ""), 10))
+    .filter((n) => n >= MIN_AMOUNT && n <= MAX_AMOUNT);
+}
+
+export function parsePriceTiers(text: string): PriceTier[] {
+  if (!text) return [];
+  const normalized = text.normalize("NFKC");
+  const tiers: PriceTier[] = [];
+  let previousEnd = 0;
+
+  for (const match of normalized.matchAll(AMOUNT)) {
+    const amount = parseInt((match[1] ?? match[2]).replace(/,/g, ""), 10);
+    // The tier name is what comes between the previous price and this one
+    const label = normalized.slice(previousEnd, match.index).split(/[\n/|;、,・]/).pop() ?? "";
+    previousEnd = match.index! + match[0].length;
+    if (amount < MIN_AMOUNT || amount > MAX_AMOUNT) continue;
+
+    const notes = [...label.matchAll(QUALIFIERS)].map((m) => m[1]);
+    if (match[3]) notes.push(match[3].trim());
+
+    let name = label.replace(QUALIFIERS, " ").replace(/[:：\s]+/g, " ").trim();
+    if (!name || GENERIC_NAMES.test(name)) name = notes.length > 0 && !label.replace(QUALIFIERS, "").trim() ? notes.shift()! : "一般";
+    if (name.length > 20) name = name.slice(-20).trim();
+
+    if (tiers.some((t) => t.name_ja === name && t.amount === amount)) continue;
+    tiers.push({ name_ja: name, name_en: translateTierName(name), amount, notes: notes.join("、") || null });
+  }
+
+  return tiers;
+}
+
+// Checked in order: a sold-out notice beats a stale 発売中, but 完売間近 and
+// 残りわずか ("few left") or 一部完売 (some seat types gone) mean tickets
+// are still on sale
+const STATUS_PATTERNS: [TicketStatus, RegExp][] = [
+  ["on_sale", /一部完売|一部売り?切れ|完売間近|売り?切れ間近|残りわずか|残り僅か|残席わずか|残少|almost\s*sold\s*out|few\s*(?:tickets|seats)\s*left/i],
+  ["sold_out", /完売|売り?切れ|予定枚数終了|sold\s*out/i],
+  ["lottery", /抽選/],
+  ["presale", /先行|プレリザーブ|プレオーダー|pre-?sale/i],
+  ["on_sale", /好評発売中|発売中|販売中|受付中|on\s*sale|tickets available/i],
+  ["not_on_sale", /発売前|発売予定|近日発売|一般発売|一般販売|coming soon/i],
+];
+
+// How far after the keyword to look for its dates
+const WINDOW_CHARS = 60;
+
+export function parseTicketStatus(text: string, reference: Date = new Date()): TicketInfo | null {
+  if (!text) return null;
+  const normalized = text.normalize("NFKC");
+
+  for (const [status, pattern] of STATUS_PATTERNS) {
+    const match = normalized.match(pattern);
+    if (!match) continue;
+    if (status === "sold_out" || status === "on_sale") {
+      return { ticket_status: status, sale_start: null, sale_end: null };
+    }
+
+    // "先行抽選 1/10(金)12:00〜1/15(水)23:59", "一般発売 2/1(土)10:00〜"
+    const after = normalized.slice(match.index! + match[0].length, match.index! + match[0].length + WINDOW_CHARS);
+    const window = parseJapaneseDateRange(after.replace(/\d{1,2}:\d{2}/g, " "), reference);
+
+    if (status === "not_on_sale" && window && window.start <= reference.toISOString().split("T")[0]) {
+      return { ticket_status: "on_sale", sale_start: window.start, sale_end: null };
+    }
+    return { ticket_status: status, sale_start: window?.start ?? null, sale_end: window?.end ?? null };
+  }
+
+  return null;
+}
@@ -0,0 +1,192 @@
+/**
+ * Venue registry
+ *
+ * Known venues come from a bundled gazetteer (venue-gazetteer.json) with
+ * canonical JA/EN names, aliases, address, prefecture and coordinates; the
+ * stations listed alongside give each venue its nearest station. Scraped
+ * venue names are matched against names and aliases once width, case,
+ * spacing and punctuation are folded. A venue the gazetteer doesn't know
+ * gets an entry of its own, keyed by its folded name, with the prefecture
+ * read from its address.
+ *
+ * Events are linked to their venue (events.venue_id) as they're saved.
+ */
+
+import { createHash } from "crypto";
+import { UNKNOWN_AREA, detectArea } from "./areas";
+import { upsertVenuesAsync } from "./db";
+import gazetteer from "./venue-gazetteer.json";
+
+export interface Venue {
+  id: string;
+  name_ja: string;
+  name_en: string | null;
+  aliases: string[];
+  address: string | null;
+  prefecture: string | null; // "東京都", "大阪府"
+  lat: number | null;
+  lng: number | null;
+  station_ja: string | null; // Nearest station, when one is within walking distance
+  station_en: string | null;
+  station_distance_m: number | null;
+}
+
+export interface GazetteerVenue {
+  id: string;
+  name_ja: string;
+  name_en: string;
+  aliases: string[];
+  address: string;
+  prefecture: string;
+  area: string; // Area ID, read from the address (see areas.ts)
+  lat: number;
+  lng: number;
+}
+
+interface Station {
+  name_ja: string;
+  name_en: string;
+  lat: number;
+  lng: number;
+}
+
+const VENUES: GazetteerVenue[] = gazetteer.venues.map((venue) => ({
+  ...venue,
+  area: detectArea(venue.address) ?? UNKNOWN_AREA,
+}));
+const STATIONS: Station[] = gazetteer.stations;
+
+// Further than this, a station isn't worth naming as the nearest
+const MAX_STATION_DISTANCE_M = 2000;
+
+// Shorter names and aliases (帝劇, 東博) only match exactly, not inside longer text
+const MIN_CONTAINED_LENGTH = 3;
+
+// Venue names that don't name a venue (scrapers' fallbacks included: "PARCO" is any Parco)
+const PLACEHOLDERS = /^(?:会場未定|未定|各会場|各地|オンライン|various(?:locations)?|tba|tbd|online|gallery|parco|tokyo|osaka|kyoto|japan)?$/;
+
+const PREFECTURE = /^(東京都|北海道|(?:京都|大阪)府|[^\s都道府県]{2,3}県)/;
+
+export function normalizeVenueName(name: string): string {
+  return name
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[\s\p{P}\p{S}]/gu, "");
+}
+
+export function isPlaceholderVenue(name: string): boolean {
+  return PLACEHOLDERS.test(normalizeVenueName(name));
+}
+
+// Every folded name and alias, longest first so the most specific wins
+const NAMES: [string, GazetteerVenue][] = VENUES.flatMap((venue) =>
+  [venue.name_ja, venue.name_en, ...venue.aliases].map((name): [string, GazetteerVenue] => [normalizeVenueName(name), venue])
+).sort((a, b) => b[0].length - a[0].length);
+
+// The gazetteer venue a scraped name refers to: an exact name or alias, or one contained in it
+export function findGazetteerVenue(text: string): GazetteerVenue | null {
+  const normalized = normalizeVenueName(text);
+  if (!normalized) return null;
+  const exact = NAMES.find(([name]) => name === normalized);
+  if (exact) return exact[1];
+  const contained = NAMES.find(([name]) => name.length >= MIN_CONTAINED_LENGTH && normalized.includes(name));
+  return contained ? contained[1] : null;
+}
+
+// For scrapers that know which venue they list (throws on an ID the gazetteer lacks)
+export function gazetteerVenue(id: string): GazetteerVenue {
+  const venue = VENUES.find((v) => v.id === id);
+  if (!venue) throw new Error(`Unknown venue ${id}`);
+  return venue;
+}
+
+export function prefectureFromAddress(address: string | null): string | null {
+  return address?.normalize("NFKC").trim().match(PREFECTURE)?.[1] ?? null;
+}
+
+// Great-circle distance in meters
+function distance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const rad = (deg: number) => (deg * Math.PI) / 180;
+  const a =
+    Math.sin(rad(lat2 - lat1) / 2) ** 2 +
+    Math.cos(rad(lat1)) * Math.cos(rad(lat2)) * Math.sin(rad(lng2 - lng1) / 2) ** 2;
+  return 2 * 6371000 * Math.asin(Math.sqrt(a));
+}
+
+export function nearestStation(lat: number, lng: number): (Station & { distance_m: number }) | null {
+  let nearest: (Station & { distance_m: number }) | null = null;
+  for (const station of STATIONS) {
+    const meters = Math.round(distance(lat, lng, station.lat, station.lng));
+    if (meters <= MAX_STATION_DISTANCE_M && (!nearest || meters < nearest.distance_m)) {
+      nearest = { ...station, distance_m: meters };
+    }
+  }
+  return nearest;
+}
+
+function fromGazetteer(venue: GazetteerVenue): Venue {
+  const station = nearestStation(venue.lat, venue.lng);
+  return {
+    id: venue.id,
+    name_ja: venue.name_ja,
+    name_en: venue.name_en,
+    aliases: venue.aliases,
+    address: venue.address,
+    prefecture: venue.prefecture,
+    lat: venue.lat,
+    lng: venue.lng,
+    station_ja: station?.name_ja ?? null,
+    station_en: station?.name_en ?? null,
+    station_distance_m: station?.distance_m ?? null,
+  };
+}
+
+/**
+ * The registry venue for a scraped venue name (and address, if any), or
+ * null for placeholders like 会場未定. `knownId` is a gazetteer ID the
+ * scraper already knows.
+ */
+export function resolveVenue(name: string, address: string | null, knownId?: string | null): Venue | null {
+  const known = knownId ? VENUES.find((v) => v.id === knownId) : null;
+  const match = known ?? findGazetteerVenue(name);
+  if (match) return fromGazetteer(match);
+  if (isPlaceholderVenue(name)) return null;
+
+  const hash = createHash("sha256").update(normalizeVenueName(name)).digest("hex");
+  const english = /^[\x20-\x7e]+$/.test(name.trim());
+  return {
+    id: `venue-${hash.slice(0, 12)}`,
+    name_ja: name.trim(),
+    name_en: english ? name.trim() : null,
+    aliases: [],
+    address,
+    prefecture: prefectureFromAddress(address),
+    lat: null,
+    lng: null,
+    station_ja: null,
+    station_en: null,
+    station_distance_m: null,
+  };
+}
+
+interface VenueRef {
+  venue_name: string;
+  venue_address: string | null;
+  venue_id?: string | null;
+}
+
+/**
+ * Point each event at its registry venue, filling in the address when the
+ * scrape had none, and save the venues involved.
+ */
+export async function linkVenuesAsync(events: VenueRef[]): Promise<void> {
+  const venues = new Map<string, Venue>();
+  for (const event of events) {
+    const venue = resolveVenue(event.venue_name, event.venue_address, event.venue_id);
+    event.venue_id = venue?.id ?? null;
+    if (!venue) continue;
+    event.venue_address ??= venue.address;
+    if (!venues.has(venue.id)) venues.set(venue.id, venue);
+  }
+  await upsertVenuesAsync([...venues.values()]);
+}
@@ -1,139 +1,588 @@
+import * as cheerio from "cheerio";
+import { FetchMode, FetchedPage, getFixturesDir, loadFixture, saveFixture } from "./fixtures";
+import { DEFAULT_HTTP_OPTIONS, HttpOptions, fetchWithRetry } from "./http";
+import { BOT_USER_AGENT, CrawlBlockedError, isAllowedByRobots } from "./crawl-policy";
+import { PageCache } from "./http-cache";
+import { ScrapeError, ScraperError, toScraperError } from "./errors";
+import { SchemaEvent, extractSchemaEvents } from "./structured-data";
+import { DETAIL_MAX_AGE_MS, EnrichStats, EventDetails, enrichEvents } from "./enrich";
+import { DateRange, parseJapaneseDate, parseJapaneseDateRange, parseShowtimes } from "@/lib/dates";
+import { PriceTier, TicketInfo, TicketStatus, parsePriceTiers, parseTicketStatus, parseYenAmounts } from "@/lib/tickets";
+import { legacyEventId, sourceKey, stableEventId } from "@/lib/ids";
+import { EventStatus, detectEventStatus } from "@/lib/event-status";
+import { UNKNOWN_AREA, detectArea } from "@/lib/areas";
+import type { Performance } from "@/lib/db";
+import type { ResolveStats } from "./resolve";
+import type { ChangeSummary } from "./history";
+
 export interface ScrapedEvent {
   id: string;
   title_ja: string;
   title_en: string | null;
   description_ja: string | null;
   description_en: string | null;
-  date_start: string;
+  date_start: string | null; // null when the page's date couldn't be parsed (see validate.ts)
   date_end: string | null;
   venue_name: string;
+  venue_id?: string | null; // Gazetteer ID, when the scraper knows the venue (otherwise resolved from venue_name)
   venue_address: string | null;
-  area: string;
-  category: string;
+  area: string; // Area ID ("shibuya", "osaka-city") or a name the taxonomy knows ("Tokyo")
+  category: string | null; // The source's own category (Ticket Pia's section); classified by rules when saved
   tags: string[];
   price_min: number | null;
   price_max: number | null;
+  price_tiers?: PriceTier[]; // Seat tiers, when the source lists them
+  ticket_status?: TicketStatus | null;
+  sale_start?: string | null; // Lottery/pre-sale window, or when general sale opens
+  sale_end?: string | null;
+  status?: EventStatus; // Cancelled or postponed, when the listing says so (read from the title otherwise)
   source_url: string;
   source_name: string;
   image_url: string | null;
+  performances?: Performance[]; // Showtimes, when the source lists them
+  raw_text?: string; // Source text the event was parsed from, kept if it's quarantined
+  legacy_id?: string; // ID under the former 32-bit hash, so a stored row can be carried over
+}
+
+export interface SaveStats {
+  inserted: number;
+  updated: number;
+  unchanged: number;
 }
 
 export interface ScraperResult {
   source: string;
   events: ScrapedEvent[];
-  errors: string[];
+  errors: ScraperError[];
+  warnings: string[]; // Anomalies such as a sudden drop in yield (see health.ts)
+  blocked: string[]; // URLs skipped because robots.txt disallows them
+  unchanged: boolean; // Every page answered 304, so nothing was parsed
+  saved?: SaveStats; // Set by the runner once events are written to the database
+  quarantined?: number; // Set by the runner: events held back by validation (see validate.ts)
+  disappeared?: number; // Set by the runner: saved events this source has stopped listing
+  changes?: ChangeSummary; // Set by the runner: what this run changed in the source's saved events
+  details?: EnrichStats; // Detail-page enrichment, when it ran
+  resolution?: ResolveStats; // Set by the runner: cross-source merging after a single-source run
+  pages: number; // Listing pages visited through paginate()
+  readThrough: string | null; // Latest date every listing was read up to; null when none was cut short
   duration_ms: number;
 }
 
+export interface RunOptions {
+  fetchMode?: FetchMode;
+  fixturesDir?: string;
+  useCache?: boolean; // Conditional requests against the persistent HTTP cache
+  detailBudget?: number; // Detail pages to fetch for enrichment (0: only reuse stored details)
+  maxPages?: number; // Listing pages followed per list URL
+  horizonDays?: number; // Stop paging once a page only has events further ahead than this
+}
+
+// How to find a listing's following pages (see BaseScraper.paginate)
+export interface PaginationOptions {
+  nextSelector?: string; // "Next" link; the usual rel="next"/次へ links otherwise
+  pageParam?: string; // Query parameter numbering the pages ("page" -> ?page=2), when there's no link
+  maxPages?: number; // Overrides the run's page limit for this listing
+}
+
+const DEFAULT_MAX_PAGES = parseInt(process.env.SCRAPER_MAX_PAGES || "5", 10) || 5;
+const DEFAULT_HORIZON_DAYS = parseInt(process.env.SCRAPER_HORIZON_DAYS || "180", 10) || 180;
+
+const NEXT_LINK_SELECTOR =
+  "link[rel='next'], a[rel='next'], .pagination .next a, .pager .next a, a.next, a.nextpostslink, .next > a";
+const NEXT_LINK_TEXT = /^(?:次へ|次のページ|次の\d+件|next(?: page)?|older(?: events| posts)?)\s*[>›»]*$|^[>›»]{1,2}$/i;
+
+// Source-specific values for events mapped from schema.org data
+export interface StructuredEventDefaults {
+  idPrefix: string;
+  area?: string; // Otherwise detected from the venue/address
+  category?: string; // The source's own category; otherwise classified when saved
+  tags?: string[];
+  english?: boolean; // Source is in English, so fill the _en fields too
+}
+
+export interface FetchOptions {
+  pageSet?: boolean; // false keeps the page out of the HTTP cache page set that decides "unchanged"
+}
+
 export abstract class BaseScraper {
   abstract name: string;
   abstract baseUrl: string;
 
-  protected async fetch(url: string): Promise<string> {
-    const response = await fetch(url, {
-      headers: {
-        "User-Agent":
-          "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
-        "Accept":
-          "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
-        "Accept-Language": "en-US,en;q=0.9,ja;q=0.8",
-      },
-    });
+  protected fetchMode: FetchMode = "live";
+  protected fixturesDir: string = getFixturesDir();
+
+  // Per-source overrides for retries, timeouts and host rate limits
+  protected httpOptions: Partial<HttpOptions> = {};
+
+  // URLs refused by the crawl policy during the current run
+  protected blockedUrls: string[] = [];
+
+  // Errors collected during the current run (see recordError)
+  protected errors: ScraperError[] = [];
+
+  protected pageCache: PageCache | null = null;
+  private revalidatedPages = new Map<string, FetchedPage>();
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  // Listing limits for the current run (see paginate)
+  protected maxPages = DEFAULT_MAX_PAGES;
+  protected horizonDays = DEFAULT_HORIZON_DAYS;
+  private pagesVisited = 0;
+  private readThrough: string | null = null;
+
+  // Former ID of each ID generated during the current run
+  private legacyIds = new Map<string, string>();
+
+  // Registry key, e.g. "Tokyo Cheapo" -> "tokyo-cheapo"
+  get key(): string {
+    return sourceKey(this.name);
+  }
+
+  // The source_name its events are saved under
+  get sourceName(): string {
+    return this.name;
+  }
+
+  protected async fetch(url: string, options: FetchOptions = {}): Promise<string> {
+    const page = await this.fetchPage(url, options);
+
+    if (page.status < 200 || page.status >= 300) {
+      throw new ScrapeError("http", `HTTP ${page.status}: ${page.statusText}`, url);
     }
 
-    return response.text();
+    return page.body;
   }
 
-  protected generateId(prefix: string, unique: string): string {
-    // Create a simple hash for consistent IDs
-    const hash = unique
-      .split("")
-      .reduce((acc, char) => ((acc << 5) - acc + char.charCodeAt(0)) | 0, 0);
-    return `${prefix}-${Math.abs(hash).toString(36)}`;
+  protected async fetchPage(url: string, options: FetchOptions = {}): Promise<FetchedPage> {
+    if (this.fetchMode === "replay") {
+      const fixture = loadFixture(this.fixturesDir, this.key, url);
+      if (!fixture) {
+        throw new ScrapeError("network", "No fixture recorded", url);
+      }
+      return fixture;
+    }
+
+    // Already fetched while checking whether the source changed
+    const revalidated = this.revalidatedPages.get(url);
+    if (revalidated) return revalidated;
+
+    return (await this.requestPage(url, options)).page;
   }
 
-  protected parseDate(dateStr: string): string | null {
+  private async requestPage(url: string, options: FetchOptions = {}): Promise<{ page: FetchedPage; notModified: boolean }> {
+    const pageCache = options.pageSet === false ? null : this.pageCache;
+
+    if (!(await isAllowedByRobots(url))) {
+      this.blockedUrls.push(url);
+      throw new CrawlBlockedError(url);
+    }
+
+    let response: Response;
     try {
-      // Try various date formats
-      const date = new Date(dateStr);
-      if (!isNaN(date.getTime())) {
-        return date.toISOString().split("T")[0];
+      response = await fetchWithRetry(url, {
+        headers: {
+          "User-Agent": BOT_USER_AGENT,
+          "Accept":
+            "text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8",
+          "Accept-Language": "en-US,en;q=0.9,ja;q=0.8",
+          ...pageCache?.conditionalHeaders(url),
+        },
+      }, { ...DEFAULT_HTTP_OPTIONS, ...this.httpOptions });
+    } catch (error) {
+      throw new ScrapeError("network", error instanceof Error ? error.message : String(error), url);
+    }
+
+    if (pageCache) {
+      return pageCache.resolve(url, response);
+    }
+
+    const page: FetchedPage = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers: Object.fromEntries(response.headers.entries()),
+      body: await response.text(),
+    };
+
+    if (this.fetchMode === "record") {
+      saveFixture(this.fixturesDir, this.key, page);
+    }
+
+    return { page, notModified: false };
+  }
+
+  /**
+   * Revalidate every page from the previous run. Returns true only if all of
+   * them answered 304; pages that did change are kept for scrape() to reuse.
+   */
+  private async revalidatePreviousPages(): Promise<boolean> {
+    const urls = this.pageCache?.revalidatableUrls();
+    if (!urls) return false;
+
+    try {
+      for (const url of urls) {
+        const { page, notModified } = await this.requestPage(url);
+        this.revalidatedPages.set(url, page);
+        if (!notModified) return false;
       }
-      return null;
     } catch {
+      // Let the full scrape surface the failure
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Fetch a listing and its following pages, parsing each with parsePage.
+   * Follows the page's "next" link (or options.pageParam) and stops at the
+   * page limit, on a page that adds no new events, or once a page's events
+   * all lie beyond the date horizon. A failed first page throws; a failed
+   * later page is recorded as an error (the listing is incomplete, so the
+   * run can't say what's no longer listed) and ends the listing. A listing
+   * cut short by the page limit or the horizon lowers readThrough to the
+   * latest date it reached.
+   */
+  protected async paginate(
+    startUrl: string,
+    parsePage: (html: string, url: string) => ScrapedEvent[],
+    options: PaginationOptions = {}
+  ): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = [];
+    const seenIds = new Set<string>();
+    const visited = new Set<string>();
+    const maxPages = options.maxPages ?? this.maxPages;
+    const horizon = new Date(Date.now() + this.horizonDays * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+    let url: string | null = startUrl;
+    let page = 1;
+    let pastHorizon = false;
+    for (; url && page <= maxPages && !visited.has(url); page++) {
+      visited.add(url);
+
+      let html: string;
+      try {
+        const fetched = await this.fetchPage(url);
+        // Numbered pages past the last one
+        if (page > 1 && fetched.status === 404) break;
+        if (fetched.status < 200 || fetched.status >= 300) {
+          throw new ScrapeError("http", `HTTP ${fetched.status}: ${fetched.statusText}`, url);
+        }
+        html = fetched.body;
+      } catch (error) {
+        if (page === 1) throw error;
+        this.recordError(error, { url, context: `listing page ${page}`, severity: "error" });
+        break;
+      }
+      this.pagesVisited++;
+
+      const fresh = parsePage(html, url).filter((e) => !seenIds.has(e.id));
+      if (fresh.length === 0) break;
+      for (const event of fresh) {
+        seenIds.add(event.id);
+        events.push(event);
+      }
+
+      // Listings run in date order, so a page entirely past the horizon ends it
+      const dated = fresh.filter((e) => e.date_start);
+      if (dated.length > 0 && dated.every((e) => e.date_start! > horizon)) {
+        pastHorizon = true;
+        break;
+      }
+
+      url = this.findNextPageUrl(html, url, page, options);
+    }
+
+    if (pastHorizon || (url && page > maxPages && !visited.has(url))) {
+      // Events after the last page read aren't known; "" when nothing dated was
+      const reached = events.reduce((latest, e) => (e.date_start && e.date_start > latest ? e.date_start : latest), "");
+      if (this.readThrough === null || reached < this.readThrough) this.readThrough = reached;
+    }
+
+    return events;
+  }
+
+  private findNextPageUrl(html: string, url: string, page: number, options: PaginationOptions): string | null {
+    const $ = cheerio.load(html);
+    const $links = $(options.nextSelector ?? NEXT_LINK_SELECTOR);
+    let href = $links.first().attr("href");
+
+    if (!href && !options.nextSelector) {
+      href = $("a")
+        .filter((_, a) => NEXT_LINK_TEXT.test($(a).text().trim()) || NEXT_LINK_TEXT.test($(a).attr("aria-label") ?? ""))
+        .first()
+        .attr("href");
+    }
+    if (href && !href.startsWith("#") && !href.startsWith("javascript:")) {
+      return new URL(href, url).toString();
+    }
+
+    if (options.pageParam) {
+      const next = new URL(url);
+      next.searchParams.set(options.pageParam, String(page + 1));
+      return next.toString();
+    }
+    return null;
+  }
+
+  /**
+   * Collect an error instead of logging or swallowing it. URLs blocked by
+   * robots.txt are already reported in `blocked` and are ignored here.
+   */
+  protected recordError(error: unknown, details: Partial<ScraperError> = {}): void {
+    if (error instanceof CrawlBlockedError) return;
+    this.errors.push(toScraperError(error, details));
+  }
+
+  /**
+   * Events embedded in the page as schema.org JSON-LD or microdata. Returns
+   * an empty list when there are none, so callers can fall back to CSS.
+   */
+  protected extractStructuredEvents(
+    html: string,
+    pageUrl: string,
+    defaults: StructuredEventDefaults
+  ): ScrapedEvent[] {
+    const events: ScrapedEvent[] = [];
+
+    for (const schemaEvent of extractSchemaEvents(html)) {
+      try {
+        const event = this.fromSchemaEvent(schemaEvent, pageUrl, defaults);
+        // Pages often carry the same event as both JSON-LD and microdata
+        if (event && !events.some((e) => e.id === event.id)) {
+          events.push(event);
+        }
+      } catch (error) {
+        this.recordError(error, { url: pageUrl, context: "schema.org event", severity: "warning" });
+      }
+    }
+
+    return events;
+  }
+
+  private fromSchemaEvent(
+    schemaEvent: SchemaEvent,
+    pageUrl: string,
+    defaults: StructuredEventDefaults
+  ): ScrapedEvent | null {
+    const dateStart = this.parseSchemaDate(schemaEvent.startDate);
+    if (!dateStart) return null;
+
+    // Without a url of its own the event lives on this page, possibly among others
+    const sourceUrl = schemaEvent.url ? new URL(schemaEvent.url, pageUrl).toString() : pageUrl;
+    const unique = schemaEvent.url ? sourceUrl : sourceUrl + schemaEvent.name;
+
+    const { name, description, locationName, address, prices } = schemaEvent;
+    const english = defaults.english ?? false;
+
+    return {
+      id: this.generateId(defaults.idPrefix, unique),
+      title_ja: name,
+      title_en: english ? name : null,
+      description_ja: description,
+      description_en: english ? description : null,
+      date_start: dateStart,
+      date_end: this.parseSchemaDate(schemaEvent.endDate),
+      venue_name: locationName || defaults.area || "会場未定",
+      venue_address: address,
+      area: defaults.area || this.detectArea(`${address ?? ""} ${locationName ?? ""} ${name}`),
+      category: defaults.category ?? null,
+      tags: defaults.tags ?? [],
+      price_min: prices.length > 0 ? Math.min(...prices) : null,
+      price_max: prices.length > 0 ? Math.max(...prices) : null,
+      source_url: sourceUrl,
+      source_name: this.sourceName,
+      image_url: schemaEvent.image ? new URL(schemaEvent.image, pageUrl).toString() : null,
+    };
+  }
+
+  // ISO 8601 dates keep their local calendar date instead of shifting to UTC
+  private parseSchemaDate(value: string | null): string | null {
+    return value ? this.parseDate(value) : null;
+  }
+
+  /**
+   * Details from an event's own page. The default reads schema.org data,
+   * Open Graph/meta tags, and any address or yen amounts in the text;
+   * scrapers override it for source-specific markup.
+   */
+  protected extractDetails(html: string, event: ScrapedEvent): EventDetails {
+    const $ = cheerio.load(html);
+    const schemaEvents = extractSchemaEvents(html);
+    const schema = schemaEvents.find((e) => e.name === event.title_ja) ?? schemaEvents[0];
+    const meta = (name: string) =>
+      $(`meta[property="${name}"], meta[name="${name}"]`).first().attr("content")?.trim() || null;
+
+    $("script, style, nav, header, footer").remove();
+    const bodyText = $("main, article, #content, .content").first().text() || $("body").text();
+
+    const prices = schema?.prices.length
+      ? { min: Math.min(...schema.prices), max: Math.max(...schema.prices) }
+      : this.parsePriceTable(bodyText);
+    const tiers = this.parsePriceTiers($(".price, .prices, .ticket-price, .seat-price, table:contains('席')").text());
+    const ticket = this.parseTicketStatus(bodyText);
+    const description = schema?.description ?? meta("og:description") ?? meta("description");
+    const image = meta("og:image") ?? meta("twitter:image") ?? schema?.image;
+    // English sources carry the same text in both language fields
+    const english = event.title_en !== null && event.title_en === event.title_ja;
+
+    return {
+      description_ja: description,
+      description_en: english ? description : null,
+      venue_address: schema?.address ?? this.findAddress(bodyText),
+      price_min: prices.min,
+      price_max: prices.max,
+      price_tiers: tiers,
+      ...ticket,
+      image_url: image ? new URL(image, event.source_url).toString() : null,
+    };
+  }
+
+  private async fetchDetails(event: ScrapedEvent): Promise<EventDetails | null> {
+    try {
+      // enrich.ts decides when a detail page is due; it isn't part of the listing
+      return this.extractDetails(await this.fetch(event.source_url, { pageSet: false }), event);
+    } catch (error) {
+      this.recordError(error, { url: event.source_url, context: "detail page", severity: "warning" });
       return null;
     }
   }
 
+  // Stable per source and normalized URL (src/lib/ids.ts)
+  protected generateId(prefix: string, unique: string): string {
+    const id = stableEventId(prefix, this.key, unique);
+    this.legacyIds.set(id, legacyEventId(prefix, unique));
+    return id;
+  }
+
+  // Shared parser (src/lib/dates.ts): eras, full-width digits, ranges, year rollover
+  protected parseDate(dateStr: string): string | null {
+    return parseJapaneseDate(dateStr);
+  }
+
+  protected parseDateRange(text: string): DateRange | null {
+    return parseJapaneseDateRange(text);
+  }
+
+  // Showtimes in the text, on the given date (null: every day of the run)
+  protected parsePerformances(text: string, date: string | null): Performance[] {
+    return parseShowtimes(text).map((show) => ({ date, ...show }));
+  }
+
+  // An item's text, whitespace collapsed, for ScrapedEvent.raw_text
+  protected rawText(text: string): string {
+    return text.replace(/\s+/g, " ").trim().slice(0, 2000);
+  }
+
+  // Japanese postal address, e.g. "東京都中央区銀座4-12-15"
+  protected findAddress(text: string): string | null {
+    const match = text.match(
+      /(?:〒?\s*\d{3}[-－]\d{4}\s*)?((?:東京都|北海道|(?:京都|大阪)府|[^\s、。]{2,3}県)[^\s、。]{1,20}?[市区町村郡][^\s、。]{0,20}?[0-9０-９]+(?:[-－ー丁目番地号の][0-9０-９]+)*(?:号|番地)?)/
+    );
+    return match ? match[1] : null;
+  }
+
+  // Lowest and highest yen amounts in a price table ("S席 ¥18,000 / A席 12,000円")
+  protected parsePriceTable(text: string): { min: number | null; max: number | null } {
+    const prices = [...text.matchAll(/[¥￥]\s*([\d,]+)|([\d,]+)\s*円/g)]
+      .map((m) => parseInt((m[1] ?? m[2]).replace(/,/g, ""), 10))
+      .filter((n) => n >= 500 && n <= 100000);
+
+    if (prices.length === 0) return { min: null, max: null };
+    return { min: Math.min(...prices), max: Math.max(...prices) };
+  }
+
+  // Lowest yen amount ("S席 ¥18,000 / A席 12,000円" is 12,000), or a bare number ("1,500")
   protected parsePrice(priceStr: string): number | null {
-    const match = priceStr.replace(/,/g, "").match(/(\d+)/);
+    const amounts = parseYenAmounts(priceStr);
+    if (amounts.length > 0) return Math.min(...amounts);
+    const match = priceStr.replace(/,/g, "").match(/^\s*(\d+)\s*$/);
     return match ? parseInt(match[1], 10) : null;
   }
 
+  // Seat tiers with JA/EN names and notes (src/lib/tickets.ts)
+  protected parsePriceTiers(text: string): PriceTier[] {
+    return parsePriceTiers(text);
+  }
+
+  // 発売中, 完売, 抽選/先行 with the window dates, 発売前
+  protected parseTicketStatus(text: string): TicketInfo | null {
+    return parseTicketStatus(text);
+  }
+
+  // 公演中止 / 延期 / "Cancelled" notices; null when the text has none
+  protected parseEventStatus(text: string): EventStatus | null {
+    return detectEventStatus(text);
+  }
+
+  // Area ID from an address, venue name or title (see lib/areas.ts)
   protected detectArea(text: string): string {
-    const areaPatterns: [RegExp, string][] = [
-      [/東京|tokyo|渋谷|新宿|池袋|銀座|六本木|秋葉原|上野|浅草/i, "Tokyo"],
-      [/大阪|osaka|梅田|難波|心斎橋/i, "Osaka"],
-      [/京都|kyoto/i, "Kyoto"],
-      [/横浜|yokohama/i, "Yokohama"],
-      [/名古屋|nagoya/i, "Nagoya"],
-      [/福岡|fukuoka|博多/i, "Fukuoka"],
-      [/札幌|sapporo/i, "Sapporo"],
-      [/神戸|kobe/i, "Kobe"],
-      [/広島|hiroshima/i, "Hiroshima"],
-      [/仙台|sendai/i, "Sendai"],
-    ];
-
-    for (const [pattern, area] of areaPatterns) {
-      if (pattern.test(text)) {
-        return area;
-      }
-    }
-    return "Japan";
-  }
-
-  protected detectCategory(text: string): string {
-    const categoryPatterns: [RegExp, string][] = [
-      [/歌舞伎|kabuki/i, "kabuki"],
-      [/落語|rakugo/i, "rakugo"],
-      [/オーケストラ|orchestra|交響楽|symphony|クラシック|classical/i, "orchestra"],
-      [/ミュージカル|musical|broadway/i, "musical"],
-      [/アニメ|anime|manga|漫画|コラボ|collab/i, "anime"],
-      [/コンサート|concert|ライブ|live|音楽|music/i, "concert"],
-      [/演劇|theatre|theater|舞台|stage/i, "theatre"],
-      [/祭り|festival|まつり|matsuri/i, "festival"],
-      [/展示|exhibition|展覧|美術|art|museum/i, "art"],
-      [/映画|film|movie|cinema/i, "film"],
-    ];
-
-    for (const [pattern, category] of categoryPatterns) {
-      if (pattern.test(text)) {
-        return category;
-      }
-    }
-    return "event";
+    return detectArea(text) ?? UNKNOWN_AREA;
   }
 
   abstract scrape(): Promise<ScrapedEvent[]>;
 
-  async run(): Promise<ScraperResult> {
+  async run(options: RunOptions = {}): Promise<ScraperResult> {
+    this.fetchMode = options.fetchMode ?? "live";
+    this.fixturesDir = options.fixturesDir ?? getFixturesDir();
+    this.blockedUrls = [];
+    this.revalidatedPages = new Map();
+    this.maxPages = options.maxPages ?? DEFAULT_MAX_PAGES;
+    this.horizonDays = options.horizonDays ?? DEFAULT_HORIZON_DAYS;
+    this.pagesVisited = 0;
+    this.readThrough = null;
+    this.legacyIds = new Map();
+    this.pageCache = options.useCache && this.fetchMode === "live" ? new PageCache(this.key) : null;
+
+    this.errors = [];
+
     const startTime = Date.now();
-    const errors: string[] = [];
     let events: ScrapedEvent[] = [];
+    let unchanged = false;
 
     try {
-      events = await this.scrape();
+      if (this.pageCache) {
+        await this.pageCache.load();
+        unchanged = await this.revalidatePreviousPages();
+      }
+      if (!unchanged) {
+        events = (await this.scrape()).map((event) => {
+          const status = event.status ?? this.parseEventStatus(`${event.title_ja} ${event.title_en ?? ""}`);
+          return { ...event, ...(status ? { status } : {}), legacy_id: this.legacyIds.get(event.id) };
+        });
+      }
     } catch (error) {
-      errors.push(error instanceof Error ? error.message : String(error));
+      this.recordError(error, { severity: "fatal" });
+    }
+
+    // Stored details apply even without a budget, so a plain run doesn't erase them
+    let details: EnrichStats | undefined;
+    if (!unchanged && events.length > 0 && (options.useCache || options.detailBudget)) {
+      const enriched = await enrichEvents(this.key, events, (event) => this.fetchDetails(event), {
+        budget: options.detailBudget ?? 0,
+        maxAgeMs: DETAIL_MAX_AGE_MS,
+      });
+      events = enriched.events;
+      details = enriched.stats;
+    }
+
+    if (this.pageCache && !unchanged) {
+      // A lost page (other than an optional one) means the page set is incomplete
+      const lostPage = this.errors.some(
+        (e) => (e.kind === "network" || e.kind === "http") && e.severity !== "warning"
+      );
+      await this.pageCache.finish(!lostPage);
     }
 
     return {
       source: this.name,
       events,
-      errors,
+      errors: [...this.errors],
+      warnings: [],
+      blocked: [...this.blockedUrls],
+      unchanged,
+      details,
+      pages: this.pagesVisited,
+      readThrough: this.readThrough,
       duration_ms: Date.now() - startTime,
     };
   }
@@ -1,125 +1,107 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import { gazetteerVenue } from "@/lib/venues";
 
 export class BillboardLiveScraper extends BaseScraper {
   name = "Billboard Live";
   baseUrl = "https://www.billboard-live.com";
 
   private venues = [
-    { path: "/tokyo/", name: "Billboard Live Tokyo", area: "Tokyo", address: "東京都港区赤坂9-7-4" },
-    { path: "/osaka/", name: "Billboard Live Osaka", area: "Osaka", address: "大阪市北区梅田2-2-22" },
-    { path: "/yokohama/", name: "Billboard Live Yokohama", area: "Yokohama", address: "横浜市西区みなとみらい4-3-1" },
+    { path: "/tokyo/", ...gazetteerVenue("billboard-live-tokyo") },
+    { path: "/osaka/", ...gazetteerVenue("billboard-live-osaka") },
+    { path: "/yokohama/", ...gazetteerVenue("billboard-live-yokohama") },
   ];
 
   async scrape(): Promise<ScrapedEvent[]> {
     const events: ScrapedEvent[] = [];
 
     for (const venue of this.venues) {
+      const scheduleUrl = `${this.baseUrl}${venue.path}schedule/`;
       try {
-        const scheduleUrl = `${this.baseUrl}${venue.path}schedule/`;
         const html = await this.fetch(scheduleUrl);
         const $ = cheerio.load(html);
 
-        // Billboard Live uses various list formats
-        $(".schedule-item, .live-item, .event-card, article, .performance, li.live").each((_, element) => {
-          try {
-            const $el = $(element);
-
-            const titleEl = $el.find("h2, h3, .artist-name, .title, .live-title a").first();
-            const title = titleEl.text().trim() || $el.find("a").first().text().trim();
-            const link = titleEl.attr("href") || $el.find("a").first().attr("href");
-
-            if (!title || title.length < 2) return;
-
-            const fullUrl = link
-              ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
-              : scheduleUrl;
-
-            // Skip duplicates
-            if (events.some((e) => e.source_url === fullUrl)) return;
-
-            const dateText = $el.find(".date, .live-date, time, .schedule-date").text().trim();
-            const timeText = $el.find(".time, .show-time, .open-start").text().trim();
-            const priceText = $el.find(".price, .ticket-price, .charge").text().trim();
-            const imageUrl = $el.find("img").first().attr("src") || null;
-
-            const dateStart = this.parseDateStr(dateText);
-
-            // Parse price range
-            const prices = this.parsePrices(priceText);
-
-            events.push({
-              id: this.generateId("billboard", fullUrl),
-              title_ja: title,
-              title_en: this.isEnglishText(title) ? title : null,
-              description_ja: timeText ? `開場/開演: ${timeText}` : null,
-              description_en: null,
-              date_start: dateStart || new Date().toISOString().split("T")[0],
-              date_end: null,
-              venue_name: venue.name,
-              venue_address: venue.address,
-              area: venue.area,
-              category: "concert",
-              tags: ["live", "music", "jazz", "pop"],
-              price_min: prices.min,
-              price_max: prices.max,
-              source_url: fullUrl,
-              source_name: this.name,
-              image_url: imageUrl,
-            });
-          } catch (error) {
-            console.error("Error parsing Billboard Live event:", error);
-          }
+        const structured = this.extractStructuredEvents(html, scheduleUrl, {
+          idPrefix: "billboard",
+          area: venue.area,
+          category: "concert",
+          tags: ["live", "music", "jazz", "pop"],
         });
-
-        // Small delay between venue requests
-        await new Promise((resolve) => setTimeout(resolve, 300));
+        events.push(...structured);
+
+        if (structured.length === 0) {
+          // Billboard Live uses various list formats
+          $(".schedule-item, .live-item, .event-card, article, .performance, li.live").each((_, element) => {
+            try {
+              const $el = $(element);
+
+              const titleEl = $el.find("h2, h3, .artist-name, .title, .live-title a").first();
+              const title = titleEl.text().trim() || $el.find("a").first().text().trim();
+              const link = titleEl.attr("href") || $el.find("a").first().attr("href");
+
+              if (!title || title.length < 2) return;
+
+              const fullUrl = link
+                ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
+                : scheduleUrl;
+
+              // Skip duplicates
+              if (events.some((e) => e.source_url === fullUrl)) return;
+
+              const dateText = $el.find(".date, .live-date, time, .schedule-date").text().trim();
+              const timeText = $el.find(".time, .show-time, .open-start").text().trim();
+              const priceText = $el.find(".price, .ticket-price, .charge").text().trim();
+              const imageUrl = $el.find("img").first().attr("src") || null;
+
+              const dateStart = this.parseDate(dateText);
+              // 1st/2nd stage doors and start times
+              const performances = dateStart ? this.parsePerformances(timeText, dateStart) : [];
+
+              // Parse price range
+              const prices = this.parsePrices(priceText);
+              // Service/casual area charges; SOLD OUT and 公演中止 show on the schedule
+              const tiers = this.parsePriceTiers(priceText);
+              const ticket = this.parseTicketStatus($el.text());
+              const status = this.parseEventStatus($el.text());
+
+              events.push({
+                id: this.generateId("billboard", fullUrl),
+                title_ja: title,
+                title_en: this.isEnglishText(title) ? title : null,
+                description_ja: timeText ? `開場/開演: ${timeText}` : null,
+                description_en: null,
+                date_start: dateStart,
+                date_end: null,
+                venue_name: venue.name_en,
+                venue_id: venue.id,
+                venue_address: venue.address,
+                area: venue.area,
+                category: "concert",
+                tags: ["live", "music", "jazz", "pop"],
+                price_min: prices.min,
+                price_max: prices.max,
+                price_tiers: tiers.length > 0 ? tiers : undefined,
+                ...ticket,
+                ...(status ? { status } : {}),
+                source_url: fullUrl,
+                source_name: this.name,
+                image_url: imageUrl,
+                performances: performances.length > 0 ? performances : undefined,
+                raw_text: this.rawText($el.text()),
+              });
+            } catch (error) {
+              this.recordError(error, { url: scheduleUrl, context: "schedule item", severity: "warning" });
+            }
+          });
+        }
       } catch (error) {
-        console.error(`Error fetching Billboard Live ${venue.name}:`, error);
+        this.recordError(error, { url: scheduleUrl, context: venue.name_en });
       }
     }
 
     return events;
   }
 
-  private parseDateStr(dateStr: string): string | null {
-    if (!dateStr) return null;
-
-    const now = new Date();
-    const currentYear = now.getFullYear();
-
-    // Pattern: 2025.1.15 or 2025/1/15
-    const fullMatch = dateStr.match(/(\d{4})[.\/](\d{1,2})[.\/](\d{1,2})/);
-    if (fullMatch) {
-      const [, year, month, day] = fullMatch;
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    // Pattern: 1.15(水) or 1/15
-    const shortMatch = dateStr.match(/(\d{1,2})[.\/](\d{1,2})/);
-    if (shortMatch) {
-      const [, month, day] = shortMatch;
-      let year = currentYear;
-      if (parseInt(month) < now.getMonth() + 1) {
-        year++;
-      }
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    // Pattern: 1月15日
-    const jpMatch = dateStr.match(/(\d{1,2})月(\d{1,2})日/);
-    if (jpMatch) {
-      const [, month, day] = jpMatch;
-      let year = currentYear;
-      if (parseInt(month) < now.getMonth() + 1) {
-        year++;
-      }
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    return null;
-  }
-
   private parsePrices(priceStr: string): { min: number | null; max: number | null } {
     if (!priceStr) return { min: null, max: null };
 
@@ -0,0 +1,54 @@
+/**
+ * Classification stage
+ *
+ * Runs after validation, before events are saved. Each event is put in the
+ * categories the rules in category_rules match (see lib/categories.ts);
+ * the source's own category, when it gives one, is kept as source_category
+ * and becomes the primary category.
+ *
+ * Rules can be changed at any time, so reclassifyEvents() applies the
+ * current ones to saved events and refreshes the canonical events.
+ */
+
+import { getCategoryRulesAsync, getRawEventsAsync, setEventCategoriesAsync } from "@/lib/db";
+import { classifyEvent } from "@/lib/categories";
+import type { Classification } from "@/lib/categories";
+import type { ValidEvent } from "./validate";
+import { resolveEvents } from "./resolve";
+import type { ResolveStats } from "./resolve";
+
+export type ClassifiedEvent = Omit<ValidEvent, "category"> & Classification & { source_category: string | null };
+
+export interface ReclassifyStats {
+  checked: number;
+  changed: number; // Events whose categories changed
+  resolution: ResolveStats;
+}
+
+export async function classifyEventsAsync(events: ValidEvent[]): Promise<ClassifiedEvent[]> {
+  const rules = await getCategoryRulesAsync();
+  return events.map((event) => ({
+    ...event,
+    ...classifyEvent(event, rules, event.category),
+    source_category: event.category,
+  }));
+}
+
+/**
+ * Classify saved events that haven't ended again with the current rules.
+ * Each change is recorded as a revision.
+ */
+export async function reclassifyEvents(today = new Date()): Promise<ReclassifyStats> {
+  const rules = await getCategoryRulesAsync();
+  const events = await getRawEventsAsync(today.toISOString().split("T")[0]);
+
+  let changed = 0;
+  for (const event of events) {
+    const { category, categories } = classifyEvent(event, rules, event.source_category);
+    if (category === event.category && categories.join() === event.categories.join()) continue;
+    await setEventCategoriesAsync(event, category, categories);
+    changed++;
+  }
+
+  return { checked: events.length, changed, resolution: await resolveEvents(today) };
+}
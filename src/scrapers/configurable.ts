@@ -0,0 +1,162 @@
+import * as cheerio from "cheerio";
+import { BaseScraper, PaginationOptions, ScrapedEvent } from "./base";
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+/**
+ * Declarative scraper definition
+ *
+ * Field selectors are CSS selectors relative to each item and read the
+ * element's text. Append "@attr" to read an attribute instead, e.g.
+ * "time@datetime" or "img@data-src".
+ */
+export interface ScraperDefinition {
+  name: string;
+  baseUrl: string;
+  idPrefix: string;
+  listUrls: string[]; // Absolute, or relative to baseUrl
+  itemSelector: string;
+  fields: {
+    title: string;
+    link?: string; // Defaults to the first link in the item
+    date?: string;
+    venue?: string;
+    description?: string;
+    image?: string; // Defaults to the first image's src/data-src
+    price?: string;
+  };
+  defaults?: {
+    area?: string; // Otherwise detected from venue/title
+    category?: string; // Otherwise classified from title/description when saved
+    venue?: string;
+    tags?: string[];
+  };
+  minTitleLength?: number;
+  pagination?: PaginationOptions; // Follow each list URL's "next" links or page numbers
+}
+
+export function validateDefinition(definition: ScraperDefinition): void {
+  const missing: string[] = [];
+  for (const key of ["name", "baseUrl", "idPrefix", "itemSelector"] as const) {
+    if (!definition[key]) missing.push(key);
+  }
+  if (!definition.listUrls?.length) missing.push("listUrls");
+  if (!definition.fields?.title) missing.push("fields.title");
+
+  if (missing.length > 0) {
+    throw new Error(`Invalid scraper definition "${definition.name || "?"}": missing ${missing.join(", ")}`);
+  }
+}
+
+export class ConfigurableScraper extends BaseScraper {
+  name: string;
+  baseUrl: string;
+
+  constructor(private definition: ScraperDefinition) {
+    super();
+    validateDefinition(definition);
+    this.name = definition.name;
+    this.baseUrl = definition.baseUrl.replace(/\/$/, "");
+  }
+
+  async scrape(): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = [];
+    const { listUrls, pagination } = this.definition;
+
+    for (const listUrl of listUrls) {
+      const url = this.absoluteUrl(listUrl);
+      try {
+        const found = await this.paginate(url, (html, pageUrl) => this.parseListing(html, pageUrl), pagination);
+        for (const event of found) {
+          if (!events.some((e) => e.source_url === event.source_url && e.title_ja === event.title_ja)) {
+            events.push(event);
+          }
+        }
+      } catch (error) {
+        this.recordError(error, { url, context: "list page" });
+      }
+    }
+
+    return events;
+  }
+
+  private parseListing(html: string, url: string): ScrapedEvent[] {
+    const { itemSelector } = this.definition;
+
+    const structured = this.extractStructuredEvents(html, url, {
+      idPrefix: this.definition.idPrefix,
+      ...this.definition.defaults,
+    });
+    if (structured.length > 0) return structured;
+
+    const $ = cheerio.load(html);
+    const events: ScrapedEvent[] = [];
+
+    $(itemSelector).each((_, element) => {
+      try {
+        const event = this.parseItem($(element), url);
+        if (event && !events.some((e) => e.source_url === event.source_url && e.title_ja === event.title_ja)) {
+          events.push(event);
+        }
+      } catch (error) {
+        this.recordError(error, { url, context: itemSelector, severity: "warning" });
+      }
+    });
+
+    return events;
+  }
+
+  private parseItem($el: Selection, listUrl: string): ScrapedEvent | null {
+    const { fields, defaults = {}, idPrefix, minTitleLength = 2 } = this.definition;
+
+    const title = this.select($el, fields.title);
+    if (!title || title.length < minTitleLength) return null;
+
+    const link = fields.link ? this.select($el, fields.link) : $el.find("a").first().attr("href");
+    const fullUrl = link ? this.absoluteUrl(link) : listUrl;
+
+    const dateText = fields.date ? this.select($el, fields.date) : "";
+    const venueText = fields.venue ? this.select($el, fields.venue) : "";
+    const description = fields.description ? this.select($el, fields.description) : "";
+    const priceText = fields.price ? this.select($el, fields.price) : "";
+    const imageUrl = fields.image
+      ? this.select($el, fields.image)
+      : $el.find("img").first().attr("src") || $el.find("img").first().attr("data-src");
+
+    const dates = this.parseDateRange(dateText);
+    const venue = venueText || defaults.venue || "";
+
+    return {
+      id: this.generateId(idPrefix, fullUrl + (link ? "" : title)),
+      title_ja: title,
+      title_en: null,
+      description_ja: description || null,
+      description_en: null,
+      date_start: dates?.start ?? null,
+      date_end: dates?.end ?? null,
+      venue_name: venue || defaults.area || "会場未定",
+      venue_address: null,
+      area: defaults.area || this.detectArea(venue || title),
+      category: defaults.category ?? null,
+      tags: defaults.tags || [],
+      price_min: priceText ? this.parsePrice(priceText) : null,
+      price_max: null,
+      price_tiers: this.parsePriceTiers(priceText),
+      source_url: fullUrl,
+      source_name: this.name,
+      image_url: imageUrl ? this.absoluteUrl(imageUrl) : null,
+      raw_text: this.rawText($el.text()),
+    };
+  }
+
+  // "selector" reads text, "selector@attr" reads an attribute
+  private select($el: Selection, selector: string): string {
+    const [css, attr] = selector.split("@");
+    const $target = css ? $el.find(css).first() : $el;
+    return (attr ? $target.attr(attr) : $target.text())?.trim() || "";
+  }
+
+  private absoluteUrl(link: string): string {
+    return new URL(link, `${this.baseUrl}/`).toString();
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Crawl policy: robots.txt compliance for scrapers
+ *
+ * - Identifies as an honest bot (SCRAPER_USER_AGENT overrides the default)
+ * - Fetches and caches robots.txt per origin (SCRAPER_ROBOTS_TTL_MS, default 24h)
+ * - Applies Allow/Disallow with RFC 9309 longest-match semantics, * and $ wildcards
+ * - Feeds Crawl-delay into the per-host rate limiter
+ *
+ * Missing robots.txt (4xx) allows everything; an unreachable one (5xx or
+ * network failure) disallows everything until it's retried a few minutes
+ * later (SCRAPER_ROBOTS_RETRY_MS, default 5 minutes).
+ */
+
+import { DEFAULT_HTTP_OPTIONS, fetchWithRetry, getHostBucket } from "./http";
+
+export const BOT_USER_AGENT =
+  process.env.SCRAPER_USER_AGENT ||
+  "JapanEventFinderBot/0.1 (+https://github.com/kaiwenzhou/japan-event-finder)";
+
+// Product token matched against robots.txt User-agent lines
+export const BOT_TOKEN = BOT_USER_AGENT.split(/[\/\s]/)[0].toLowerCase();
+
+const ROBOTS_TTL_MS = Number(process.env.SCRAPER_ROBOTS_TTL_MS) || 24 * 60 * 60 * 1000;
+// An unreachable robots.txt is retried sooner, so one timeout doesn't block a host for a day
+const ROBOTS_RETRY_MS = Number(process.env.SCRAPER_ROBOTS_RETRY_MS) || 5 * 60 * 1000;
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsGroup {
+  agents: string[];
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+}
+
+export type RobotsStatus = "ok" | "missing" | "unreachable";
+
+export interface RobotsPolicy {
+  origin: string;
+  status: RobotsStatus;
+  rules: RobotsRule[];
+  crawlDelay: number | null;
+  fetchedAt: number;
+}
+
+export interface CrawlPolicyStatus {
+  robots: RobotsStatus;
+  allowed: boolean;
+  crawlDelay: number | null;
+  userAgent: string;
+}
+
+export class CrawlBlockedError extends Error {
+  constructor(public url: string) {
+    super(`Blocked by robots.txt: ${url}`);
+    this.name = "CrawlBlockedError";
+  }
+}
+
+export function parseRobotsTxt(text: string): RobotsGroup[] {
+  const groups: RobotsGroup[] = [];
+  let current: RobotsGroup | null = null;
+  let lastWasAgent = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*$/, "").trim();
+    const separator = line.indexOf(":");
+    if (separator === -1) continue;
+
+    const key = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (key === "user-agent") {
+      // Consecutive User-agent lines share one group
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelay: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      continue;
+    }
+
+    lastWasAgent = false;
+    if (!current) continue;
+
+    if (key === "allow" || key === "disallow") {
+      // An empty Disallow means "allow everything" and adds no rule
+      if (value) current.rules.push({ allow: key === "allow", pattern: value });
+    } else if (key === "crawl-delay") {
+      const delay = parseFloat(value);
+      if (Number.isFinite(delay) && delay >= 0) current.crawlDelay = delay;
+    }
+  }
+
+  return groups;
+}
+
+// Merge every group addressed to our token, falling back to "*"
+function selectGroups(groups: RobotsGroup[]): Pick<RobotsPolicy, "rules" | "crawlDelay"> {
+  let matched = groups.filter((g) => g.agents.includes(BOT_TOKEN));
+  if (matched.length === 0) {
+    matched = groups.filter((g) => g.agents.includes("*"));
+  }
+
+  const delays = matched.map((g) => g.crawlDelay).filter((d): d is number => d !== null);
+  return {
+    rules: matched.flatMap((g) => g.rules),
+    crawlDelay: delays.length > 0 ? Math.max(...delays) : null,
+  };
+}
+
+function patternToRegExp(pattern: string): RegExp {
+  const anchored = pattern.endsWith("$");
+  const body = (anchored ? pattern.slice(0, -1) : pattern)
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${body}${anchored ? "$" : ""}`);
+}
+
+export function isPathAllowed(policy: RobotsPolicy, pathWithQuery: string): boolean {
+  if (policy.status === "missing") return true;
+  if (policy.status === "unreachable") return false;
+  if (pathWithQuery === "/robots.txt") return true;
+
+  let best: RobotsRule | null = null;
+  for (const rule of policy.rules) {
+    if (!patternToRegExp(rule.pattern).test(pathWithQuery)) continue;
+    // Longest pattern wins; Allow wins a tie
+    if (
+      !best ||
+      rule.pattern.length > best.pattern.length ||
+      (rule.pattern.length === best.pattern.length && rule.allow)
+    ) {
+      best = rule;
+    }
+  }
+
+  return best ? best.allow : true;
+}
+
+async function loadRobotsPolicy(origin: string): Promise<RobotsPolicy> {
+  const base = { origin, rules: [], crawlDelay: null, fetchedAt: Date.now() };
+
+  try {
+    const response = await fetchWithRetry(`${origin}/robots.txt`, {
+      headers: { "User-Agent": BOT_USER_AGENT },
+    });
+
+    if (response.status >= 400 && response.status < 500) {
+      return { ...base, status: "missing" };
+    }
+    if (!response.ok) {
+      return { ...base, status: "unreachable" };
+    }
+
+    const policy: RobotsPolicy = {
+      ...base,
+      status: "ok",
+      ...selectGroups(parseRobotsTxt(await response.text())),
+    };
+
+    if (policy.crawlDelay) {
+      const rate = Math.min(DEFAULT_HTTP_OPTIONS.requestsPerSecond, 1 / policy.crawlDelay);
+      getHostBucket(new URL(origin).host).setRate(rate, 1);
+    }
+
+    return policy;
+  } catch {
+    return { ...base, status: "unreachable" };
+  }
+}
+
+const policyCache = new Map<string, Promise<RobotsPolicy>>();
+
+export async function getRobotsPolicy(url: string): Promise<RobotsPolicy> {
+  const origin = new URL(url).origin;
+  const cached = policyCache.get(origin);
+
+  if (cached) {
+    const policy = await cached;
+    const ttl = policy.status === "unreachable" ? ROBOTS_RETRY_MS : ROBOTS_TTL_MS;
+    if (Date.now() - policy.fetchedAt < ttl) return policy;
+  }
+
+  const pending = loadRobotsPolicy(origin);
+  policyCache.set(origin, pending);
+  return pending;
+}
+
+export async function isAllowedByRobots(url: string): Promise<boolean> {
+  const policy = await getRobotsPolicy(url);
+  const { pathname, search } = new URL(url);
+  return isPathAllowed(policy, pathname + search);
+}
+
+export async function getCrawlPolicyStatus(url: string): Promise<CrawlPolicyStatus> {
+  const policy = await getRobotsPolicy(url);
+  const { pathname, search } = new URL(url);
+  return {
+    robots: policy.status,
+    allowed: isPathAllowed(policy, pathname + search),
+    crawlDelay: policy.crawlDelay,
+    userAgent: BOT_USER_AGENT,
+  };
+}
@@ -0,0 +1,25 @@
+import type { ScraperDefinition } from "../configurable";
+import type { JsonLdDefinition } from "../json-ld";
+import type { IcsFeedDefinition } from "../ics";
+import type { FeedDefinition } from "../feed";
+import animate from "./animate.json";
+
+/**
+ * Config-driven sources
+ *
+ * Simple list-page sites don't need a scraper class: add a JSON (or TS)
+ * definition here and the registry builds a ConfigurableScraper from it.
+ * Sites that embed schema.org Event data only need their page URLs, as a
+ * JsonLdDefinition. Venues and promoters that publish .ics calendars (or a
+ * local .ics file) are added as an IcsFeedDefinition, and RSS/Atom feeds as
+ * a FeedDefinition.
+ */
+export const scraperDefinitions: ScraperDefinition[] = [
+  animate as ScraperDefinition,
+];
+
+export const jsonLdDefinitions: JsonLdDefinition[] = [];
+
+export const icsFeeds: IcsFeedDefinition[] = [];
+
+export const feeds: FeedDefinition[] = [];
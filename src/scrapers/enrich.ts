@@ -0,0 +1,134 @@
+/**
+ * Detail-page enrichment
+ *
+ * Listing pages give titles and little else. This optional second pass
+ * follows each event's source_url and merges in what the source's extractor
+ * (BaseScraper.extractDetails) finds there: the full description, real
+ * prices and seat tiers, ticket status, the address and a larger image.
+ *
+ * Extracted details are stored in event_details. Pages fetched recently are
+ * not fetched again, and stored details are applied to every later run so a
+ * run without enrichment doesn't erase them.
+ */
+
+import { EventDetailsEntry, getEventDetailsAsync, putEventDetailsAsync } from "@/lib/db";
+import type { ScrapedEvent } from "./base";
+
+export type EventDetails = Partial<
+  Pick<
+    ScrapedEvent,
+    | "description_ja"
+    | "description_en"
+    | "venue_name"
+    | "venue_address"
+    | "price_min"
+    | "price_max"
+    | "price_tiers"
+    | "ticket_status"
+    | "sale_start"
+    | "sale_end"
+    | "image_url"
+    | "performances"
+  >
+>;
+
+export interface EnrichOptions {
+  budget: number; // Detail pages fetched per source per run
+  maxAgeMs: number; // Pages fetched more recently than this are not fetched again
+}
+
+export interface EnrichStats {
+  fetched: number;
+  reused: number; // Recently fetched details applied without a request
+  failed: number;
+  deferred: number; // Due for a fetch but over this run's budget
+}
+
+export const DETAIL_MAX_AGE_MS =
+  (parseInt(process.env.SCRAPER_DETAIL_MAX_AGE_HOURS || "168", 10) || 168) * 60 * 60 * 1000;
+
+// Detail values replace listing values, except where the detail page had nothing
+export function mergeDetails(event: ScrapedEvent, details: EventDetails): ScrapedEvent {
+  const merged: ScrapedEvent = { ...event };
+  for (const [field, value] of Object.entries(details) as [keyof EventDetails, unknown][]) {
+    if (value !== null && value !== undefined && value !== "" && !(Array.isArray(value) && value.length === 0)) {
+      (merged as unknown as Record<string, unknown>)[field] = value;
+    }
+  }
+  return merged;
+}
+
+export async function enrichEvents(
+  source: string,
+  events: ScrapedEvent[],
+  fetchDetails: (event: ScrapedEvent) => Promise<EventDetails | null>,
+  options: EnrichOptions
+): Promise<{ events: ScrapedEvent[]; stats: EnrichStats }> {
+  const stats: EnrichStats = { fetched: 0, reused: 0, failed: 0, deferred: 0 };
+
+  // Several events sharing a URL means it's a listing, not a detail page
+  const urlCounts = new Map<string, number>();
+  for (const event of events) {
+    urlCounts.set(event.source_url, (urlCounts.get(event.source_url) ?? 0) + 1);
+  }
+  const candidates = events.filter(
+    (e) => urlCounts.get(e.source_url) === 1 && /^https?:\/\//.test(e.source_url)
+  );
+
+  const stored = new Map<string, EventDetailsEntry>();
+  try {
+    for (const entry of await getEventDetailsAsync(candidates.map((e) => e.id))) {
+      stored.set(entry.event_id, entry);
+    }
+  } catch (error) {
+    console.error(`Event details unavailable for ${source}:`, error);
+  }
+
+  // Details only count for the page they were read from
+  const storedFor = (event: ScrapedEvent) => {
+    const entry = stored.get(event.id);
+    return entry?.url === event.source_url ? entry : undefined;
+  };
+  const fetchedAt = (event: ScrapedEvent) => Date.parse(storedFor(event)?.fetched_at ?? "") || 0;
+
+  // Never-fetched pages first, then the stalest
+  const now = Date.now();
+  const due = candidates
+    .filter((e) => now - fetchedAt(e) >= options.maxAgeMs)
+    .sort((a, b) => fetchedAt(a) - fetchedAt(b));
+  const toFetch = new Set(due.slice(0, Math.max(0, options.budget)).map((e) => e.id));
+  stats.deferred = due.length - toFetch.size;
+
+  const enriched: ScrapedEvent[] = [];
+  for (const event of events) {
+    const entry = storedFor(event);
+
+    if (toFetch.has(event.id)) {
+      const details = await fetchDetails(event);
+      if (details) {
+        stats.fetched++;
+        try {
+          await putEventDetailsAsync({
+            event_id: event.id,
+            source,
+            url: event.source_url,
+            details,
+            fetched_at: new Date().toISOString(),
+          });
+        } catch (error) {
+          console.error(`Failed to store details for ${event.id}:`, error);
+        }
+        enriched.push(mergeDetails(event, details));
+        continue;
+      }
+      stats.failed++;
+    } else if (entry && now - fetchedAt(event) < options.maxAgeMs) {
+      stats.reused++;
+    }
+
+    // Stale or failed: the last known details still beat none
+    enriched.push(entry ? mergeDetails(event, entry.details) : event);
+  }
+
+  return { events: enriched, stats };
+}
@@ -0,0 +1,58 @@
+/**
+ * Structured scraper errors
+ *
+ * Scrapers collect errors with BaseScraper.recordError() instead of logging
+ * or swallowing them, so runs can be summarized by kind.
+ */
+
+export type ScraperErrorKind = "network" | "http" | "parse" | "validation" | "persistence";
+
+// warning: one item lost; error: a page or section lost; fatal: the scrape aborted
+export type ScraperErrorSeverity = "warning" | "error" | "fatal";
+
+export const SCRAPER_ERROR_KINDS: ScraperErrorKind[] = ["network", "http", "parse", "validation", "persistence"];
+
+export interface ScraperError {
+  kind: ScraperErrorKind;
+  severity: ScraperErrorSeverity;
+  message: string;
+  url?: string;
+  context?: string; // Selector, section or item the error relates to
+}
+
+// Thrown by the fetch layer so callers don't need to guess the kind
+export class ScrapeError extends Error {
+  constructor(public kind: ScraperErrorKind, message: string, public url?: string) {
+    super(message);
+    this.name = "ScrapeError";
+  }
+}
+
+export function toScraperError(error: unknown, details: Partial<ScraperError> = {}): ScraperError {
+  const result: ScraperError = {
+    kind: "parse",
+    severity: "error",
+    message: error instanceof Error ? error.message : String(error),
+    ...details,
+  };
+
+  if (error instanceof ScrapeError) {
+    result.kind = error.kind;
+    result.url = error.url ?? result.url;
+  }
+
+  return result;
+}
+
+export function summarizeErrors(errors: ScraperError[]): Partial<Record<ScraperErrorKind, number>> {
+  const summary: Partial<Record<ScraperErrorKind, number>> = {};
+  for (const error of errors) {
+    summary[error.kind] = (summary[error.kind] ?? 0) + 1;
+  }
+  return summary;
+}
+
+export function formatError(error: ScraperError): string {
+  const where = [error.context, error.url].filter(Boolean).join(" @ ");
+  return `[${error.kind}/${error.severity}] ${error.message}${where ? ` (${where})` : ""}`;
+}
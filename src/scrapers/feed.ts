@@ -0,0 +1,139 @@
+import * as cheerio from "cheerio";
+import { BaseScraper, ScrapedEvent } from "./base";
+import { ScrapeError } from "./errors";
+
+/**
+ * RSS/Atom feed source
+ *
+ * Feeds are far more stable than CSS selectors, so a feed needs only a
+ * config entry. Event dates are pulled from the item's title and content;
+ * an item without one (a news post, a sale notice) is left undated and
+ * quarantined rather than dated by publication. The area is detected from
+ * the text as usual, and the category classified when events are saved.
+ */
+
+export interface FeedDefinition {
+  name: string;
+  url: string; // RSS 2.0, RSS 1.0 (RDF) or Atom
+  idPrefix: string;
+  baseUrl?: string; // Defaults to the feed's origin
+  area?: string; // Otherwise detected from venue/title/content
+  category?: string; // Otherwise classified from title/content when saved
+  tags?: string[];
+  english?: boolean; // Feed is in English, so fill the _en fields too
+}
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+interface FeedItem {
+  title: string;
+  link: string | null;
+  content: string; // Plain text
+  image: string | null;
+}
+
+// "会場：渋谷公会堂" / "Venue: Zepp Haneda"
+const VENUE_PATTERN = /(?:会場|場所|Venue|Location)\s*[:：]\s*([^\n。、|]+)/i;
+
+export class FeedScraper extends BaseScraper {
+  name: string;
+  baseUrl: string;
+
+  constructor(private feed: FeedDefinition) {
+    super();
+    if (!feed.name || !feed.url || !feed.idPrefix) {
+      throw new Error(`Invalid feed "${feed.name || "?"}": name, url and idPrefix are required`);
+    }
+    this.name = feed.name;
+    this.baseUrl = (feed.baseUrl ?? new URL(feed.url).origin).replace(/\/$/, "");
+  }
+
+  async scrape(): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = [];
+    const xml = await this.fetch(this.feed.url);
+    const $ = cheerio.load(xml, { xml: true });
+
+    const items = $("item, entry").toArray();
+    if (items.length === 0) {
+      this.recordError(new ScrapeError("parse", "No RSS items or Atom entries found", this.feed.url));
+    }
+
+    for (const element of items) {
+      try {
+        const item = this.parseItem($, $(element));
+        const event = item && this.toScrapedEvent(item);
+        if (event && !events.some((e) => e.id === event.id)) {
+          events.push(event);
+        }
+      } catch (error) {
+        this.recordError(error, { url: this.feed.url, context: "feed item", severity: "warning" });
+      }
+    }
+
+    return events;
+  }
+
+  private parseItem($: cheerio.CheerioAPI, $item: Selection): FeedItem | null {
+    const child = (selector: string) => $item.children(selector).first();
+
+    const title = child("title").text().trim();
+    if (!title) return null;
+
+    // Atom links live in href; RSS links are text
+    const $atomLink = $item.children('link[rel="alternate"], link:not([rel])').first();
+    const link = $atomLink.attr("href") || child("link").text().trim() || child("guid").text().trim() || null;
+
+    const html = child("content\\:encoded").text() || child("content").text() || child("description").text() ||
+      child("summary").text();
+    const $content = cheerio.load(html);
+
+    const image =
+      $item.children('enclosure[type^="image"]').attr("url") ||
+      child("media\\:content").attr("url") ||
+      child("media\\:thumbnail").attr("url") ||
+      $content("img").first().attr("src") ||
+      null;
+
+    const absolute = (url: string | null) => (url ? new URL(url, `${this.baseUrl}/`).toString() : null);
+
+    return {
+      title,
+      link: absolute(link),
+      content: $content.root().text().replace(/\s+/g, " ").trim(),
+      image: absolute(image),
+    };
+  }
+
+  private toScrapedEvent(item: FeedItem): ScrapedEvent {
+    const { title, content } = item;
+    const sourceUrl = item.link ?? this.feed.url;
+
+    // Titles often carry the date ("【1/25】..."), so check them first
+    const dates = this.parseDateRange(title) ?? this.parseDateRange(content);
+
+    const venue = content.match(VENUE_PATTERN)?.[1].trim() ?? "";
+    const description = content.slice(0, 500) || null;
+    const english = this.feed.english ?? false;
+
+    return {
+      id: this.generateId(this.feed.idPrefix, sourceUrl + (item.link ? "" : title)),
+      title_ja: title,
+      title_en: english ? title : null,
+      description_ja: description,
+      description_en: english ? description : null,
+      date_start: dates?.start ?? null,
+      date_end: dates?.end ?? null,
+      venue_name: venue || this.feed.area || "会場未定",
+      venue_address: null,
+      area: this.feed.area || this.detectArea(`${venue} ${title} ${content}`),
+      category: this.feed.category ?? null,
+      tags: this.feed.tags ?? [],
+      price_min: null,
+      price_max: null,
+      source_url: sourceUrl,
+      source_name: this.name,
+      image_url: item.image,
+      raw_text: this.rawText(`${title} ${content}`),
+    };
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * Fixture recording and replay for scraper HTTP traffic.
+ *
+ * Modes:
+ * - live:   fetch from the network (default)
+ * - record: fetch from the network and save every page to the fixtures directory
+ * - replay: serve previously recorded pages without touching the network
+ *
+ * Fixtures are stored as JSON, one file per URL, under <dir>/<scraper-key>/.
+ * Set SCRAPER_FIXTURES_DIR to override the default location.
+ */
+
+import fs from "fs";
+import path from "path";
+import { createHash } from "crypto";
+
+export type FetchMode = "live" | "record" | "replay";
+
+export const FETCH_MODES: FetchMode[] = ["live", "record", "replay"];
+
+export interface FetchedPage {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface Fixture extends FetchedPage {
+  recorded_at: string;
+}
+
+export function isFetchMode(value: string): value is FetchMode {
+  return (FETCH_MODES as string[]).includes(value);
+}
+
+export function getFixturesDir(): string {
+  return process.env.SCRAPER_FIXTURES_DIR || path.join(process.cwd(), "fixtures", "scrapers");
+}
+
+// Readable file name with a short hash so long or similar URLs never clash
+function fixturePath(dir: string, source: string, url: string): string {
+  const slug = url
+    .replace(/^https?:\/\//, "")
+    .replace(/[^a-zA-Z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+    .slice(0, 80);
+  const hash = createHash("sha1").update(url).digest("hex").slice(0, 10);
+  return path.join(dir, source, `${slug}-${hash}.json`);
+}
+
+export function saveFixture(dir: string, source: string, page: FetchedPage): void {
+  const file = fixturePath(dir, source, page.url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+
+  const fixture: Fixture = { ...page, recorded_at: new Date().toISOString() };
+  fs.writeFileSync(file, JSON.stringify(fixture, null, 2));
+}
+
+export function loadFixture(dir: string, source: string, url: string): Fixture | null {
+  const file = fixturePath(dir, source, url);
+  if (!fs.existsSync(file)) return null;
+  return JSON.parse(fs.readFileSync(file, "utf-8")) as Fixture;
+}
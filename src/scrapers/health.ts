@@ -0,0 +1,88 @@
+/**
+ * Selector-drift detection
+ *
+ * Scrapers rely on broad fallback selectors, so a site redesign usually shows
+ * up as a quiet drop in yield or in field completeness rather than an error.
+ * Each run is compared against the source's recent history and anomalies are
+ * reported as warnings.
+ */
+
+import { getRecentSourceRunsAsync } from "@/lib/db";
+import { isPlaceholderVenue } from "@/lib/venues";
+import type { ScrapedEvent } from "./base";
+
+export interface SourceStats {
+  events: number;
+  dates_parsed: number;
+  venues_found: number;
+}
+
+// Runs needed before a baseline is trusted
+const MIN_HISTORY = 3;
+const HISTORY_SIZE = 10;
+// Yield below this fraction of the usual median is flagged
+const YIELD_DROP_RATIO = 0.5;
+// Completeness falling this far below the usual share is flagged
+const COMPLETENESS_DROP = 0.3;
+
+export function computeStats(events: ScrapedEvent[]): SourceStats {
+  return {
+    events: events.length,
+    dates_parsed: events.filter((e) => e.date_start !== null).length,
+    venues_found: events.filter((e) => !isPlaceholderVenue(e.venue_name) && e.venue_name !== e.area).length,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 100)}%`;
+
+export function compareWithHistory(current: SourceStats, history: SourceStats[]): string[] {
+  // Runs that produced nothing (outages) would drag the baseline down
+  const baseline = history.filter((h) => h.events > 0);
+  if (baseline.length < MIN_HISTORY) return [];
+
+  const warnings: string[] = [];
+  const usualYield = median(baseline.map((h) => h.events));
+
+  if (current.events === 0) {
+    warnings.push(`Yielded 0 events (usually ~${usualYield})`);
+    return warnings;
+  }
+
+  if (current.events < usualYield * YIELD_DROP_RATIO) {
+    warnings.push(`Yield dropped to ${current.events} events (usually ~${usualYield})`);
+  }
+
+  const checks: [keyof SourceStats, string][] = [
+    ["dates_parsed", "parsed dates"],
+    ["venues_found", "venues"],
+  ];
+
+  for (const [field, label] of checks) {
+    const usual = median(baseline.map((h) => h[field] / h.events));
+    const now = current[field] / current.events;
+    if (usual - now > COMPLETENESS_DROP) {
+      warnings.push(`Only ${percent(now)} of events have ${label} (usually ${percent(usual)})`);
+    }
+  }
+
+  return warnings;
+}
+
+export async function checkSourceHealth(source: string, events: ScrapedEvent[]): Promise<string[]> {
+  try {
+    const history = await getRecentSourceRunsAsync(source, HISTORY_SIZE);
+    return compareWithHistory(
+      computeStats(events),
+      history.map((h) => ({ events: h.events_found, dates_parsed: h.dates_parsed, venues_found: h.venues_found }))
+    );
+  } catch (error) {
+    console.error(`Health check unavailable for ${source}:`, error);
+    return [];
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Scrape run history
+ *
+ * Records every run (scrape_runs) and each source's outcome within it
+ * (scrape_run_sources), and summarizes what the run changed in saved
+ * events (event_revisions). History is best-effort: a failure to record is
+ * logged and never fails the scrape itself.
+ */
+
+import {
+  EventRevision,
+  FieldChange,
+  ScrapeTrigger,
+  addScrapeRunSourceAsync,
+  finishScrapeRunAsync,
+  getRunRevisionsAsync,
+  startScrapeRunAsync,
+} from "@/lib/db";
+import type { ScraperResult } from "./base";
+import { computeStats } from "./health";
+
+// Changed events listed in full in a summary; the rest are only counted
+const MAX_CHANGE_EXAMPLES = 10;
+
+export interface ChangeSummary {
+  events: number; // Saved events with at least one change
+  fields: Record<string, number>; // Events each field changed on, e.g. { date_start: 2 }
+  examples: { event_id: string; changes: FieldChange[] }[];
+}
+
+export function summarizeChanges(revisions: EventRevision[]): ChangeSummary {
+  const byEvent = new Map<string, FieldChange[]>();
+  for (const revision of revisions) {
+    byEvent.set(revision.event_id, [...(byEvent.get(revision.event_id) ?? []), ...revision.changes]);
+  }
+
+  const fields: Record<string, number> = {};
+  for (const changes of byEvent.values()) {
+    for (const field of new Set(changes.map((c) => c.field))) {
+      fields[field] = (fields[field] ?? 0) + 1;
+    }
+  }
+
+  return {
+    events: byEvent.size,
+    fields,
+    examples: [...byEvent.entries()]
+      .slice(0, MAX_CHANGE_EXAMPLES)
+      .map(([event_id, changes]) => ({ event_id, changes })),
+  };
+}
+
+export class RunRecorder {
+  private constructor(private runId: number | null) {}
+
+  get id(): number | null {
+    return this.runId;
+  }
+
+  static async start(trigger: ScrapeTrigger): Promise<RunRecorder> {
+    try {
+      return new RunRecorder(await startScrapeRunAsync(trigger, new Date().toISOString()));
+    } catch (error) {
+      console.error("Failed to record scrape run:", error);
+      return new RunRecorder(null);
+    }
+  }
+
+  async recordSource(key: string, startedAt: Date, result: ScraperResult): Promise<void> {
+    if (this.runId === null) return;
+
+    const stats = computeStats(result.events);
+
+    try {
+      await addScrapeRunSourceAsync({
+        run_id: this.runId,
+        source: key,
+        source_name: result.source,
+        started_at: startedAt.toISOString(),
+        finished_at: new Date().toISOString(),
+        duration_ms: result.duration_ms,
+        events_found: result.events.length,
+        inserted: result.saved?.inserted ?? 0,
+        updated: result.saved?.updated ?? 0,
+        unchanged: result.saved?.unchanged ?? 0,
+        not_modified: result.unchanged,
+        dates_parsed: stats.dates_parsed,
+        venues_found: stats.venues_found,
+        quarantined: result.quarantined ?? 0,
+        errors: result.errors,
+        warnings: result.warnings,
+      });
+    } catch (error) {
+      console.error(`Failed to record scrape run source ${key}:`, error);
+    }
+  }
+
+  // What the run has changed so far, in one source's events or all of them
+  async changes(source?: string): Promise<ChangeSummary | null> {
+    if (this.runId === null) return null;
+
+    try {
+      return summarizeChanges(await getRunRevisionsAsync(this.runId, source));
+    } catch (error) {
+      console.error("Failed to summarize scrape run changes:", error);
+      return null;
+    }
+  }
+
+  async finish(results: ScraperResult[]): Promise<void> {
+    if (this.runId === null) return;
+
+    const sum = (pick: (r: ScraperResult) => number) => results.reduce((total, r) => total + pick(r), 0);
+
+    try {
+      await finishScrapeRunAsync({
+        id: this.runId,
+        finished_at: new Date().toISOString(),
+        events_found: sum((r) => r.events.length),
+        inserted: sum((r) => r.saved?.inserted ?? 0),
+        updated: sum((r) => r.saved?.updated ?? 0),
+        unchanged: sum((r) => r.saved?.unchanged ?? 0),
+        error_count: sum((r) => r.errors.length),
+      });
+    } catch (error) {
+      console.error("Failed to finish scrape run record:", error);
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Conditional HTTP caching for scraper pages
+ *
+ * Every listing page a source fetches is remembered with its
+ * ETag/Last-Modified validators (and body, so a 304 can be served locally);
+ * detail pages fetched for enrichment are left out. The stored set of
+ * URLs is the source's "page set" from its last run: when every page in it
+ * answers 304, the source is unchanged and parsing can be skipped entirely.
+ */
+
+import {
+  HttpCacheEntry,
+  getHttpCacheEntriesAsync,
+  putHttpCacheEntryAsync,
+  pruneHttpCacheAsync,
+} from "@/lib/db";
+import type { FetchedPage } from "./fixtures";
+
+export class PageCache {
+  private entries = new Map<string, HttpCacheEntry>();
+  private fetched = new Set<string>();
+
+  constructor(private source: string) {}
+
+  async load(): Promise<void> {
+    try {
+      for (const entry of await getHttpCacheEntriesAsync(this.source)) {
+        this.entries.set(entry.url, entry);
+      }
+    } catch (error) {
+      console.error(`HTTP cache unavailable for ${this.source}:`, error);
+    }
+  }
+
+  // URLs from the previous run that can be revalidated; null if any lacks validators
+  revalidatableUrls(): string[] | null {
+    if (this.entries.size === 0) return null;
+
+    const urls: string[] = [];
+    for (const entry of this.entries.values()) {
+      if (!entry.body || (!entry.etag && !entry.last_modified)) return null;
+      urls.push(entry.url);
+    }
+    return urls;
+  }
+
+  conditionalHeaders(url: string): Record<string, string> {
+    const entry = this.entries.get(url);
+    if (!entry?.body) return {};
+
+    const headers: Record<string, string> = {};
+    if (entry.etag) headers["If-None-Match"] = entry.etag;
+    if (entry.last_modified) headers["If-Modified-Since"] = entry.last_modified;
+    return headers;
+  }
+
+  /**
+   * Turn a response into a page, serving the cached body on 304 and
+   * remembering validators for successful responses.
+   */
+  async resolve(url: string, response: Response): Promise<{ page: FetchedPage; notModified: boolean }> {
+    const headers = Object.fromEntries(response.headers.entries());
+    const cached = this.entries.get(url);
+
+    if (response.status === 304 && cached?.body) {
+      this.fetched.add(url);
+      return {
+        page: { url, status: 200, statusText: "OK", headers, body: cached.body },
+        notModified: true,
+      };
+    }
+
+    const page: FetchedPage = {
+      url,
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text(),
+    };
+
+    if (response.ok) {
+      this.fetched.add(url);
+
+      const etag = response.headers.get("etag");
+      const lastModified = response.headers.get("last-modified");
+      const entry: HttpCacheEntry = {
+        url,
+        source: this.source,
+        etag,
+        last_modified: lastModified,
+        body: etag || lastModified ? page.body : null,
+        fetched_at: new Date().toISOString(),
+      };
+
+      this.entries.set(url, entry);
+      try {
+        await putHttpCacheEntryAsync(entry);
+      } catch (error) {
+        console.error(`Failed to cache ${url}:`, error);
+      }
+    }
+
+    return { page, notModified: false };
+  }
+
+  /**
+   * Keep exactly this run's pages as the page set for the next run. A failed
+   * run clears the set so the next run is a full one.
+   */
+  async finish(success: boolean): Promise<void> {
+    try {
+      await pruneHttpCacheAsync(this.source, success ? [...this.fetched] : []);
+    } catch (error) {
+      console.error(`Failed to prune HTTP cache for ${this.source}:`, error);
+    }
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * Shared HTTP layer for scrapers
+ *
+ * - Retries network errors and transient statuses (408, 429, 5xx)
+ * - Exponential backoff with full jitter between attempts
+ * - Honours Retry-After on 429/503, pausing the whole host
+ * - Per-host token bucket, so every scraper hitting a host shares one budget
+ *
+ * Defaults can be tuned with SCRAPER_MAX_RETRIES, SCRAPER_RETRY_BASE_MS,
+ * SCRAPER_TIMEOUT_MS, SCRAPER_HOST_RPS and SCRAPER_HOST_BURST.
+ */
+
+export interface HttpOptions {
+  retries: number; // Extra attempts after the first request
+  baseDelayMs: number; // Backoff base, doubled on every attempt
+  maxDelayMs: number; // Upper bound for backoff and Retry-After waits
+  timeoutMs: number; // Per-attempt timeout
+  requestsPerSecond: number; // Sustained rate per host
+  burst: number; // Requests allowed back-to-back before throttling
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : fallback;
+}
+
+export const DEFAULT_HTTP_OPTIONS: HttpOptions = {
+  retries: envNumber("SCRAPER_MAX_RETRIES", 3),
+  baseDelayMs: envNumber("SCRAPER_RETRY_BASE_MS", 500),
+  maxDelayMs: 30_000,
+  timeoutMs: envNumber("SCRAPER_TIMEOUT_MS", 20_000),
+  requestsPerSecond: envNumber("SCRAPER_HOST_RPS", 1),
+  burst: envNumber("SCRAPER_HOST_BURST", 2),
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private rate: number, private capacity: number) {
+    this.tokens = capacity;
+  }
+
+  setRate(rate: number, capacity = this.capacity): void {
+    this.refill();
+    this.rate = rate;
+    this.capacity = capacity;
+    this.tokens = Math.min(this.tokens, capacity);
+  }
+
+  // Block every caller until the given time (e.g. from Retry-After)
+  pauseUntil(time: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, time);
+  }
+
+  // Waiters are chained so tokens are handed out in request order
+  take(): Promise<void> {
+    const next = this.queue.then(() => this.acquire());
+    this.queue = next.catch(() => undefined);
+    return next;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.rate);
+    this.lastRefill = now;
+  }
+
+  private async acquire(): Promise<void> {
+    for (;;) {
+      const pause = this.pausedUntil - Date.now();
+      if (pause > 0) {
+        await sleep(pause);
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+
+      await sleep(((1 - this.tokens) / this.rate) * 1000);
+    }
+  }
+}
+
+const hostBuckets = new Map<string, TokenBucket>();
+
+export function getHostBucket(
+  host: string,
+  options: Pick<HttpOptions, "requestsPerSecond" | "burst"> = DEFAULT_HTTP_OPTIONS
+): TokenBucket {
+  let bucket = hostBuckets.get(host);
+  if (!bucket) {
+    bucket = new TokenBucket(options.requestsPerSecond, options.burst);
+    hostBuckets.set(host, bucket);
+  }
+  return bucket;
+}
+
+function backoffDelay(attempt: number, options: HttpOptions): number {
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+// Retry-After is either delta-seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(header);
+  return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * fetch() with per-host throttling and retries.
+ * Non-retryable responses (and the last attempt) are returned as-is so the
+ * caller decides what an error status means.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: HttpOptions = DEFAULT_HTTP_OPTIONS
+): Promise<Response> {
+  const bucket = getHostBucket(new URL(url).host, options);
+
+  for (let attempt = 0; ; attempt++) {
+    await bucket.take();
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal: AbortSignal.timeout(options.timeoutMs) });
+    } catch (error) {
+      if (attempt >= options.retries) throw error;
+      await sleep(backoffDelay(attempt, options));
+      continue;
+    }
+
+    if (!RETRYABLE_STATUSES.has(response.status) || attempt >= options.retries) {
+      return response;
+    }
+
+    let delay = backoffDelay(attempt, options);
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+      if (retryAfter !== null) {
+        // Not worth waiting that long inside a scrape run
+        if (retryAfter > options.maxDelayMs) return response;
+        delay = retryAfter;
+        bucket.pauseUntil(Date.now() + retryAfter);
+      }
+    }
+
+    await response.body?.cancel();
+    await sleep(delay);
+  }
+}
@@ -0,0 +1,483 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { BaseScraper, ScrapedEvent } from "./base";
+
+/**
+ * iCalendar (ICS) feed source
+ *
+ * - Parses VEVENTs from an http(s)/webcal feed or a local .ics file
+ * - Expands RRULE recurrences (with EXDATE and RECURRENCE-ID overrides) up to a horizon
+ * - Resolves TZID/UTC times to the event's calendar date in Japan time
+ * - Treats DTEND of all-day events as exclusive, so multi-day events end on the right day
+ */
+
+export interface IcsFeedDefinition {
+  name: string;
+  baseUrl: string; // Venue/promoter site, linked from events without a URL of their own
+  url: string; // http(s)/webcal URL, or a local .ics path relative to the project root
+  idPrefix: string;
+  sourceName?: string; // Defaults to name
+  area?: string; // Otherwise detected from LOCATION/SUMMARY
+  category?: string; // Otherwise classified from SUMMARY/DESCRIPTION when saved
+  tags?: string[];
+  horizonDays?: number; // How far ahead recurring events are expanded
+}
+
+const DEFAULT_HORIZON_DAYS = 180;
+const EVENT_TIME_ZONE = "Asia/Tokyo";
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Guards against runaway rules (e.g. FREQ=DAILY since 2001)
+const MAX_PERIODS = 20000;
+
+interface IcsProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+type VEvent = Map<string, IcsProperty[]>;
+
+// Wall-clock time stored in the UTC fields of a Date, plus how to interpret it
+interface IcsDate {
+  wall: Date;
+  allDay: boolean;
+  utc: boolean;
+  tzid: string | null;
+}
+
+interface RRule {
+  freq: "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+  interval: number;
+  count: number | null;
+  until: IcsDate | null;
+  byDay: { weekday: number; ordinal: number | null }[];
+  byMonthDay: number[];
+  byMonth: number[];
+}
+
+const WEEKDAYS = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+// ============ Parsing ============
+
+function unescapeText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) => (char.toLowerCase() === "n" ? "\n" : char));
+}
+
+function parseContentLine(line: string): IcsProperty | null {
+  // Split on the first ":" outside a quoted parameter value
+  let inQuotes = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') inQuotes = !inQuotes;
+    else if (line[i] === ":" && !inQuotes) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon === -1) return null;
+
+  const [name, ...rawParams] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+  const params: Record<string, string> = {};
+  for (const param of rawParams) {
+    const [key, ...rest] = param.split("=");
+    params[key.toUpperCase()] = rest.join("=").replace(/^"|"$/g, "");
+  }
+
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+export function parseIcsEvents(ics: string): VEvent[] {
+  // Lines starting with a space or tab continue the previous line
+  const lines = ics.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const events: VEvent[] = [];
+  let current: VEvent | null = null;
+  let nested = 0; // Depth of components inside the VEVENT (e.g. VALARM)
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+
+    if (property.name === "BEGIN") {
+      if (property.value.toUpperCase() === "VEVENT" && !current) current = new Map();
+      else if (current) nested++;
+    } else if (property.name === "END") {
+      if (current && nested > 0) nested--;
+      else if (current && property.value.toUpperCase() === "VEVENT") {
+        events.push(current);
+        current = null;
+      }
+    } else if (current && nested === 0) {
+      current.set(property.name, [...(current.get(property.name) ?? []), property]);
+    }
+  }
+
+  return events;
+}
+
+function parseIcsDate(value: string, params: Record<string, string>): IcsDate | null {
+  const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+  if (!match) return null;
+
+  const [, year, month, day, hour, minute, second, zulu] = match;
+  const allDay = params.VALUE === "DATE" || hour === undefined;
+  const wall = new Date(Date.UTC(+year, +month - 1, +day, allDay ? 0 : +hour, allDay ? 0 : +minute, +(second ?? 0)));
+
+  return { wall, allDay, utc: Boolean(zulu), tzid: zulu || allDay ? null : params.TZID ?? null };
+}
+
+function parseRRule(value: string): RRule | null {
+  const parts = Object.fromEntries(
+    value.split(";").map((part) => {
+      const [key, ...rest] = part.split("=");
+      return [key.toUpperCase(), rest.join("=")];
+    })
+  );
+
+  if (!["DAILY", "WEEKLY", "MONTHLY", "YEARLY"].includes(parts.FREQ)) return null;
+  const numbers = (list?: string) => (list ? list.split(",").map(Number).filter((n) => !isNaN(n) && n !== 0) : []);
+
+  return {
+    freq: parts.FREQ as RRule["freq"],
+    interval: Math.max(1, parseInt(parts.INTERVAL || "1", 10) || 1),
+    count: parts.COUNT ? parseInt(parts.COUNT, 10) : null,
+    until: parts.UNTIL ? parseIcsDate(parts.UNTIL, {}) : null,
+    byDay: (parts.BYDAY ? parts.BYDAY.split(",") : []).flatMap((entry: string) => {
+      const match = entry.match(/^([+-]?\d+)?(SU|MO|TU|WE|TH|FR|SA)$/i);
+      return match ? [{ weekday: WEEKDAYS.indexOf(match[2].toUpperCase()), ordinal: match[1] ? +match[1] : null }] : [];
+    }),
+    byMonthDay: numbers(parts.BYMONTHDAY),
+    byMonth: numbers(parts.BYMONTH),
+  };
+}
+
+// RFC 5545 DURATION, e.g. P1D, PT2H30M, P1W
+function parseDuration(value: string): number | null {
+  const match = value.match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const ms = ((+(weeks ?? 0) * 7 + +(days ?? 0)) * 24 * 3600 + +(hours ?? 0) * 3600 + +(minutes ?? 0) * 60 + +(seconds ?? 0)) * 1000;
+  return sign === "-" ? -ms : ms;
+}
+
+// ============ Time zones ============
+
+function isTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Offset of a time zone from UTC at the given instant
+function zoneOffset(instant: number, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(instant);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+  return Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second")) - instant;
+}
+
+// The instant a date-time refers to; floating times and unknown TZIDs count as Japan time
+function toInstant(date: IcsDate): number {
+  const wall = date.wall.getTime();
+  if (date.utc) return wall;
+
+  const timeZone = date.tzid && isTimeZone(date.tzid) ? date.tzid : EVENT_TIME_ZONE;
+  const guess = wall - zoneOffset(wall, timeZone);
+  // Second pass settles times near a DST change
+  return wall - zoneOffset(guess, timeZone);
+}
+
+const isoDate = (wall: Date) => wall.toISOString().split("T")[0];
+
+// Calendar date of the event in Japan
+function toEventDate(date: IcsDate): string {
+  if (date.allDay) return isoDate(date.wall);
+  return new Intl.DateTimeFormat("en-CA", { timeZone: EVENT_TIME_ZONE }).format(toInstant(date));
+}
+
+// Identifies an occurrence for EXDATE/RECURRENCE-ID matching
+function occurrenceKey(date: IcsDate): string {
+  return date.allDay ? isoDate(date.wall) : String(toInstant(date));
+}
+
+// ============ Recurrence ============
+
+const addDays = (wall: Date, days: number) => new Date(wall.getTime() + days * DAY_MS);
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+// Days of a month selected by BYDAY (with optional ordinals) or BYMONTHDAY
+function monthDays(year: number, month: number, rule: RRule, fallbackDay: number): number[] {
+  const total = daysInMonth(year, month);
+
+  if (rule.byDay.length > 0) {
+    const days: number[] = [];
+    for (const { weekday, ordinal } of rule.byDay) {
+      const matching: number[] = [];
+      for (let day = 1; day <= total; day++) {
+        if (new Date(Date.UTC(year, month, day)).getUTCDay() === weekday) matching.push(day);
+      }
+      if (ordinal === null) days.push(...matching);
+      else {
+        const day = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+        if (day) days.push(day);
+      }
+    }
+    return days.filter((day) => rule.byMonthDay.length === 0 || rule.byMonthDay.includes(day));
+  }
+
+  if (rule.byMonthDay.length > 0) {
+    return rule.byMonthDay.map((d) => (d > 0 ? d : total + d + 1)).filter((d) => d >= 1 && d <= total);
+  }
+
+  return fallbackDay <= total ? [fallbackDay] : [];
+}
+
+// Candidate start times (wall clock) within the n-th period of the rule
+function periodCandidates(start: Date, rule: RRule, period: number): Date[] {
+  const time = start.getTime() % DAY_MS;
+  const at = (year: number, month: number, day: number) => new Date(Date.UTC(year, month, day) + time);
+  const step = period * rule.interval;
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = addDays(start, step);
+      const weekdays = rule.byDay.map((d) => d.weekday);
+      if (weekdays.length > 0 && !weekdays.includes(day.getUTCDay())) return [];
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(day.getUTCMonth() + 1)) return [];
+      return [day];
+    }
+    case "WEEKLY": {
+      if (rule.byDay.length === 0) return [addDays(start, step * 7)];
+      // Weeks start on Monday (WKST=MO)
+      const monday = addDays(start, step * 7 - ((start.getUTCDay() + 6) % 7));
+      return rule.byDay.map((d) => addDays(monday, (d.weekday + 6) % 7));
+    }
+    case "MONTHLY": {
+      const month = start.getUTCMonth() + step;
+      const year = start.getUTCFullYear() + Math.floor(month / 12);
+      const monthIndex = month % 12;
+      if (rule.byMonth.length > 0 && !rule.byMonth.includes(monthIndex + 1)) return [];
+      return monthDays(year, monthIndex, rule, start.getUTCDate()).map((day) => at(year, monthIndex, day));
+    }
+    case "YEARLY": {
+      const year = start.getUTCFullYear() + step;
+      const months = rule.byMonth.length > 0 ? rule.byMonth.map((m) => m - 1) : [start.getUTCMonth()];
+      return months.flatMap((month) => monthDays(year, month, rule, start.getUTCDate()).map((day) => at(year, month, day)));
+    }
+  }
+}
+
+function isAfterUntil(occurrence: IcsDate, until: IcsDate): boolean {
+  if (until.allDay || occurrence.allDay) return isoDate(occurrence.wall) > isoDate(until.wall);
+  return toInstant(occurrence) > toInstant(until);
+}
+
+/**
+ * Start times of a recurring event that fall before `horizon` (wall clock),
+ * honouring COUNT and UNTIL. Occurrences before the window still count
+ * towards COUNT.
+ */
+function expandRRule(start: IcsDate, rule: RRule, horizon: Date): IcsDate[] {
+  const occurrences: IcsDate[] = [];
+  let seen = 0;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    const candidates = periodCandidates(start.wall, rule, period).sort((a, b) => a.getTime() - b.getTime());
+
+    for (const wall of candidates) {
+      if (wall < start.wall) continue;
+
+      const occurrence = { ...start, wall };
+      if (wall > horizon || (rule.until && isAfterUntil(occurrence, rule.until))) return occurrences;
+      if (rule.count !== null && seen >= rule.count) return occurrences;
+
+      seen++;
+      occurrences.push(occurrence);
+    }
+  }
+
+  return occurrences;
+}
+
+// ============ Scraper ============
+
+const text = (event: VEvent, name: string) => {
+  const value = event.get(name)?.[0]?.value;
+  return value ? unescapeText(value).trim() || null : null;
+};
+
+const dateProp = (event: VEvent, name: string) => {
+  const property = event.get(name)?.[0];
+  return property ? parseIcsDate(property.value, property.params) : null;
+};
+
+export class IcsScraper extends BaseScraper {
+  name: string;
+  baseUrl: string;
+
+  constructor(private feed: IcsFeedDefinition) {
+    super();
+    if (!feed.name || !feed.baseUrl || !feed.url || !feed.idPrefix) {
+      throw new Error(`Invalid ICS feed "${feed.name || "?"}": name, baseUrl, url and idPrefix are required`);
+    }
+    this.name = feed.name;
+    this.baseUrl = feed.baseUrl.replace(/\/$/, "");
+  }
+
+  get sourceName(): string {
+    return this.feed.sourceName ?? this.name;
+  }
+
+  async scrape(): Promise<ScrapedEvent[]> {
+    const ics = await this.loadFeed();
+    const vevents = parseIcsEvents(ics);
+
+    const today = new Date(`${new Intl.DateTimeFormat("en-CA", { timeZone: EVENT_TIME_ZONE }).format(Date.now())}T00:00:00Z`);
+    const horizon = addDays(today, this.feed.horizonDays ?? DEFAULT_HORIZON_DAYS);
+
+    // Occurrences replaced by a RECURRENCE-ID override, per UID
+    const overridden = new Map<string, Set<string>>();
+    for (const vevent of vevents) {
+      const uid = text(vevent, "UID");
+      const recurrenceId = dateProp(vevent, "RECURRENCE-ID");
+      if (uid && recurrenceId) {
+        overridden.set(uid, (overridden.get(uid) ?? new Set()).add(occurrenceKey(recurrenceId)));
+      }
+    }
+
+    const events: ScrapedEvent[] = [];
+    for (const vevent of vevents) {
+      try {
+        events.push(...this.expandEvent(vevent, today, horizon, overridden));
+      } catch (error) {
+        this.recordError(error, { url: this.feed.url, context: text(vevent, "UID") ?? "VEVENT", severity: "warning" });
+      }
+    }
+
+    return events;
+  }
+
+  private async loadFeed(): Promise<string> {
+    const url = this.feed.url.replace(/^webcal:/i, "https:");
+    if (/^https?:\/\//i.test(url)) {
+      return this.fetch(url);
+    }
+    return fs.readFile(path.resolve(process.cwd(), url), "utf-8");
+  }
+
+  private expandEvent(
+    vevent: VEvent,
+    today: Date,
+    horizon: Date,
+    overridden: Map<string, Set<string>>
+  ): ScrapedEvent[] {
+    const summary = text(vevent, "SUMMARY");
+    const start = dateProp(vevent, "DTSTART");
+    if (!summary || !start) return [];
+    if (text(vevent, "STATUS")?.toUpperCase() === "CANCELLED") return [];
+
+    const uid = text(vevent, "UID") ?? `${summary}@${occurrenceKey(start)}`;
+    const duration = this.eventDuration(vevent, start);
+    const rrule = vevent.has("RECURRENCE-ID") ? null : vevent.get("RRULE")?.[0];
+    const rule = rrule ? parseRRule(rrule.value) : null;
+
+    if (!rule) {
+      const event = this.toScrapedEvent(vevent, uid, start, duration, null);
+      return (event.date_end ?? event.date_start!) >= isoDate(today) ? [event] : [];
+    }
+
+    const excluded = new Set(overridden.get(uid));
+    for (const exdate of vevent.get("EXDATE") ?? []) {
+      for (const value of exdate.value.split(",")) {
+        const date = parseIcsDate(value, exdate.params);
+        if (date) excluded.add(occurrenceKey(date)).add(isoDate(date.wall));
+      }
+    }
+
+    return expandRRule(start, rule, horizon)
+      .filter((occurrence) => !excluded.has(occurrenceKey(occurrence)))
+      .filter((occurrence) => occurrence.wall.getTime() + duration >= today.getTime())
+      .map((occurrence) => this.toScrapedEvent(vevent, uid, occurrence, duration, occurrenceKey(occurrence)));
+  }
+
+  // Milliseconds from start to end; all-day events without an end last one day
+  private eventDuration(vevent: VEvent, start: IcsDate): number {
+    const end = dateProp(vevent, "DTEND");
+    if (end) {
+      return start.allDay || end.allDay ? end.wall.getTime() - start.wall.getTime() : toInstant(end) - toInstant(start);
+    }
+    const duration = text(vevent, "DURATION");
+    return (duration && parseDuration(duration)) || (start.allDay ? DAY_MS : 0);
+  }
+
+  private toScrapedEvent(
+    vevent: VEvent,
+    uid: string,
+    start: IcsDate,
+    duration: number,
+    occurrence: string | null
+  ): ScrapedEvent {
+    const summary = text(vevent, "SUMMARY") ?? "";
+    const description = text(vevent, "DESCRIPTION");
+    const location = text(vevent, "LOCATION") ?? "";
+    const recurrenceId = dateProp(vevent, "RECURRENCE-ID");
+
+    const dateStart = toEventDate(start);
+    // All-day DTEND is exclusive: an event ending on the 5th lasts through the 4th
+    const end: IcsDate = start.allDay
+      ? { ...start, wall: new Date(start.wall.getTime() + Math.max(duration, DAY_MS) - DAY_MS) }
+      : { ...start, wall: new Date(start.wall.getTime() + duration) };
+    const dateEnd = toEventDate(end);
+
+    // "会場名, 住所" is the usual LOCATION layout
+    const [venueName, ...addressParts] = location.split(/[,，、]\s*/);
+    const url = text(vevent, "URL");
+
+    // Overrides keep the ID of the occurrence they replace
+    const idKey = recurrenceId ? `${uid}#${occurrenceKey(recurrenceId)}` : occurrence ? `${uid}#${occurrence}` : uid;
+
+    return {
+      id: this.generateId(this.feed.idPrefix, idKey),
+      title_ja: summary,
+      title_en: null,
+      description_ja: description,
+      description_en: null,
+      date_start: dateStart,
+      date_end: dateEnd !== dateStart ? dateEnd : null,
+      venue_name: venueName?.trim() || this.feed.area || "会場未定",
+      venue_address: addressParts.join(" ").trim() || null,
+      area: this.feed.area || this.detectArea(location + " " + summary),
+      category: this.feed.category ?? null,
+      tags: this.feed.tags ?? [],
+      price_min: null,
+      price_max: null,
+      source_url: url && /^https?:\/\//i.test(url) ? url : this.baseUrl,
+      source_name: this.sourceName,
+      image_url: this.imageUrl(vevent),
+    };
+  }
+
+  // RFC 7986 IMAGE, or an ATTACH with an image media type
+  private imageUrl(vevent: VEvent): string | null {
+    const image = vevent.get("IMAGE")?.[0];
+    if (image && /^https?:/i.test(image.value)) return image.value;
+
+    const attach = (vevent.get("ATTACH") ?? []).find(
+      (a) => a.params.FMTTYPE?.startsWith("image/") && /^https?:/i.test(a.value)
+    );
+    return attach?.value ?? null;
+  }
+}
@@ -1,4 +1,4 @@
-import type { ScraperResult, ScrapedEvent } from "./base";
+import type { ScraperResult, ScrapedEvent, RunOptions, SaveStats } from "./base";
 import { BaseScraper } from "./base";
 import { TokyoCheapoScraper } from "./tokyo-cheapo";
 import { JapanTravelScraper } from "./japan-travel";
@@ -8,12 +8,45 @@ import { TokyoArtBeatScraper } from "./tokyo-art-beat";
 import { NHKSymphonyScraper } from "./nhk-symphony";
 import { BillboardLiveScraper } from "./billboard-live";
 import { ParcoScraper } from "./parco";
-import { upsertEventAsync } from "@/lib/db";
+import { ConfigurableScraper } from "./configurable";
+import { JsonLdScraper } from "./json-ld";
+import { IcsScraper } from "./ics";
+import { FeedScraper } from "./feed";
+import { feeds, icsFeeds, jsonLdDefinitions, scraperDefinitions } from "./definitions";
+import { getCrawlPolicyStatus } from "./crawl-policy";
+import type { CrawlPolicyStatus } from "./crawl-policy";
+import { RunRecorder } from "./history";
+import type { ChangeSummary } from "./history";
+import { checkSourceHealth } from "./health";
+import { toScraperError } from "./errors";
+import { screenEvents } from "./validate";
+import { classifyEventsAsync } from "./classify";
+import type { ClassifiedEvent } from "./classify";
+import { resolveEvents } from "./resolve";
+import type { ResolveStats } from "./resolve";
+import { markMissingEventsAsync, upsertEventAsync } from "@/lib/db";
+import type { ScrapeTrigger } from "@/lib/db";
+import { linkVenuesAsync } from "@/lib/venues";
 
-export type { ScraperResult, ScrapedEvent };
+export type { ScraperResult, ScrapedEvent, RunOptions, SaveStats };
+export type { FetchMode } from "./fixtures";
+export type { CrawlPolicyStatus };
+export type { ScraperError, ScraperErrorKind } from "./errors";
+export type { ScraperDefinition } from "./configurable";
+export type { JsonLdDefinition } from "./json-ld";
+export type { IcsFeedDefinition } from "./ics";
+export type { FeedDefinition } from "./feed";
+export type { ValidEvent, QuarantineFix } from "./validate";
+export type { ResolveStats } from "./resolve";
+export type { ClassifiedEvent, ReclassifyStats } from "./classify";
+export type { ChangeSummary } from "./history";
+export { summarizeErrors, formatError } from "./errors";
+export { validateEvent, fixQuarantinedEvent, discardQuarantinedEvent, FIXABLE_FIELDS } from "./validate";
+export { reclassifyEvents } from "./classify";
+export { isFetchMode } from "./fixtures";
 export { BaseScraper };
 
-// Registry of all available scrapers
+// Registry of all available scrapers: hand-written classes plus config-driven definitions
 export const scrapers: BaseScraper[] = [
   new TokyoCheapoScraper(),
   new JapanTravelScraper(),
@@ -23,111 +56,278 @@ export const scrapers: BaseScraper[] = [
   new NHKSymphonyScraper(),
   new BillboardLiveScraper(),
   new ParcoScraper(),
+  ...scraperDefinitions.map((definition) => new ConfigurableScraper(definition)),
+  ...jsonLdDefinitions.map((definition) => new JsonLdScraper(definition)),
+  ...icsFeeds.map((feed) => new IcsScraper(feed)),
+  ...feeds.map((feed) => new FeedScraper(feed)),
 ];
 
 export interface RunAllResult {
   results: ScraperResult[];
   totalEvents: number;
   totalErrors: number;
+  totalBlocked: number;
+  totalWarnings: number;
+  totalUnchanged: number; // Sources skipped because nothing changed upstream
+  totalQuarantined: number; // Events held back by validation for review
+  totalDisappeared: number; // Events their sources stopped listing
   totalDuration_ms: number;
+  runId: number | null; // scrape_runs id, null when nothing was saved
+  resolution: ResolveStats | null; // Cross-source merging, null when nothing was saved
+  changes: ChangeSummary | null; // What the run changed in saved events, null when nothing was saved
 }
 
-export async function runAllScrapers(options?: {
-  sources?: string[];
-  saveToDb?: boolean;
-}): Promise<RunAllResult> {
-  const { sources, saveToDb = true } = options || {};
+// Clean runs in a row that must miss an upcoming event before it's marked disappeared
+const DISAPPEAR_AFTER_RUNS = parseInt(process.env.SCRAPER_DISAPPEAR_AFTER || "3", 10) || 3;
 
-  const scrapersToRun = sources
-    ? scrapers.filter((s) => sources.includes(s.name.toLowerCase().replace(/\s+/g, "-")))
-    : scrapers;
+export interface RunnerOptions extends RunOptions {
+  trigger?: ScrapeTrigger;
+}
 
+// Run a scraper and save its events, collecting save failures as errors
+async function runAndSave(
+  scraper: BaseScraper,
+  saveToDb: boolean,
+  options: RunOptions,
+  recorder: RunRecorder | null
+): Promise<ScraperResult> {
+  const runId = recorder?.id ?? null;
+  const log = (message: string) => console.log(`[${scraper.key}] ${message}`);
   const startTime = Date.now();
-  const results: ScraperResult[] = [];
-  let totalEvents = 0;
-  let totalErrors = 0;
+  log("Running...");
 
-  for (const scraper of scrapersToRun) {
-    console.log(`Running scraper: ${scraper.name}...`);
+  let result: ScraperResult;
+  try {
+    // Conditional requests only pay off when the previous results were saved
+    result = await scraper.run({ useCache: saveToDb, ...options });
+  } catch (error) {
+    console.error(`Error running scraper ${scraper.name}:`, error);
+    return {
+      source: scraper.name,
+      events: [],
+      errors: [toScraperError(error, { severity: "fatal" })],
+      warnings: [],
+      blocked: [],
+      unchanged: false,
+      pages: 0,
+      readThrough: null,
+      duration_ms: Date.now() - startTime,
+    };
+  }
+
+  if (result.unchanged) {
+    log("Unchanged since last run (all pages 304), skipping");
+    return result;
+  }
+
+  log(`Found ${result.events.length} events (${result.errors.length} errors)`);
 
+  result.warnings.push(...(await checkSourceHealth(scraper.key, result.events)));
+  for (const warning of result.warnings) {
+    log(`Warning: ${warning}`);
+  }
+  if (result.blocked.length > 0) {
+    log(`Skipped ${result.blocked.length} URLs disallowed by robots.txt`);
+  }
+
+  // Events that fail validation go to quarantine instead of the events table
+  const { valid, quarantined, errors } = await screenEvents(scraper.key, result.events, saveToDb);
+  result.quarantined = quarantined;
+  result.errors.push(...errors);
+  if (quarantined > 0) {
+    log(`Quarantined ${quarantined} events for review`);
+  }
+
+  if (saveToDb && valid.length > 0) {
+    try {
+      await linkVenuesAsync(valid);
+    } catch (error) {
+      result.errors.push(toScraperError(error, { kind: "persistence", context: "venues" }));
+    }
+
+    let classified: ClassifiedEvent[] = [];
+    try {
+      classified = await classifyEventsAsync(valid);
+    } catch (error) {
+      result.errors.push(toScraperError(error, { kind: "persistence", context: "category rules" }));
+    }
+
+    const saved: SaveStats = { inserted: 0, updated: 0, unchanged: 0 };
+    for (const event of classified) {
+      try {
+        saved[await upsertEventAsync(event, runId)]++;
+      } catch (error) {
+        result.errors.push(
+          toScraperError(error, { kind: "persistence", context: `event ${event.id}`, url: event.source_url })
+        );
+      }
+    }
+    result.saved = saved;
+    log(`Saved ${classified.length} events (${saved.inserted} new, ${saved.updated} updated, ${saved.unchanged} unchanged)`);
+  }
+
+  // Only a complete run without errors or health warnings says what's no
+  // longer listed; otherwise an outage, a broken selector or a page robots.txt
+  // kept us from would retire events
+  const clean =
+    result.warnings.length === 0 &&
+    result.blocked.length === 0 &&
+    result.errors.every((e) => e.severity === "warning" && !e.context?.startsWith("listing page"));
+  // Up to the date every listing was read through, not just the longest one
+  const latest = valid.reduce((max, e) => (e.date_start > max ? e.date_start : max), "");
+  const through = result.readThrough !== null && result.readThrough < latest ? result.readThrough : latest;
+  if (saveToDb && clean && through) {
     try {
-      const result = await scraper.run();
-      results.push(result);
-
-      totalEvents += result.events.length;
-      totalErrors += result.errors.length;
-
-      console.log(`  Found ${result.events.length} events (${result.errors.length} errors)`);
-
-      // Save events to database
-      if (saveToDb && result.events.length > 0) {
-        for (const event of result.events) {
-          try {
-            await upsertEventAsync(event);
-          } catch (error) {
-            console.error(`  Error saving event ${event.id}:`, error);
-            totalErrors++;
-          }
-        }
-        console.log(`  Saved ${result.events.length} events to database`);
+      const ids = result.events.map((e) => e.id);
+      result.disappeared = await markMissingEventsAsync(scraper.sourceName, ids, through, DISAPPEAR_AFTER_RUNS, runId);
+      if (result.disappeared > 0) {
+        log(`${result.disappeared} events no longer listed, marked disappeared`);
       }
     } catch (error) {
-      console.error(`Error running scraper ${scraper.name}:`, error);
-      results.push({
-        source: scraper.name,
-        events: [],
-        errors: [error instanceof Error ? error.message : String(error)],
-        duration_ms: 0,
-      });
-      totalErrors++;
+      result.errors.push(toScraperError(error, { kind: "persistence", context: "missing events" }));
+    }
+  }
+
+  if (saveToDb) {
+    result.changes = (await recorder?.changes(scraper.sourceName)) ?? undefined;
+    if (result.changes?.events) {
+      log(`Changed ${result.changes.events} saved events (${formatChangedFields(result.changes)})`);
     }
+  }
 
-    // Small delay between scrapers
-    await new Promise((resolve) => setTimeout(resolve, 1000));
+  return result;
+}
+
+function formatChangedFields(changes: ChangeSummary): string {
+  return Object.entries(changes.fields)
+    .map(([field, count]) => `${field}: ${count}`)
+    .join(", ");
+}
+
+// Merge what the sources saved into canonical events (only those involving
+// `sources`, when given); a failure here leaves the saved rows as they are
+async function resolveSaved(
+  results: ScraperResult[],
+  runId: number | null,
+  sources?: string[]
+): Promise<ResolveStats | null> {
+  if (!results.some((r) => r.saved)) return null;
+  try {
+    const stats = await resolveEvents(new Date(), runId, sources);
+    console.log(`[resolve] ${stats.groups} canonical events from ${stats.linked} source rows (${stats.retired} retired)`);
+    return stats;
+  } catch (error) {
+    console.error("Error resolving events:", error);
+    return null;
   }
+}
+
+// Process items with at most `limit` in flight, preserving result order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const runners = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+
+  await Promise.all(runners);
+  return results;
+}
+
+export async function runAllScrapers(options?: RunnerOptions & {
+  sources?: string[];
+  saveToDb?: boolean;
+  concurrency?: number; // Sources run in parallel; per-host rate limits still apply
+}): Promise<RunAllResult> {
+  const { sources, saveToDb = true, concurrency = 1, trigger = "api", ...runOptions } = options || {};
+
+  const scrapersToRun = sources
+    ? scrapers.filter((s) => sources.includes(s.key))
+    : scrapers;
+
+  const startTime = Date.now();
+  const recorder = saveToDb ? await RunRecorder.start(trigger) : null;
+
+  const results = await mapWithConcurrency(scrapersToRun, Math.max(1, concurrency), async (scraper) => {
+    const startedAt = new Date();
+    const result = await runAndSave(scraper, saveToDb, runOptions, recorder);
+    await recorder?.recordSource(scraper.key, startedAt, result);
+    return result;
+  });
+
+  await recorder?.finish(results);
+  const resolution = await resolveSaved(results, recorder?.id ?? null);
+  const changes = (await recorder?.changes()) ?? null;
+
+  const active = results.filter((r) => !r.unchanged);
 
   return {
     results,
-    totalEvents,
-    totalErrors,
+    totalEvents: active.reduce((sum, r) => sum + r.events.length, 0),
+    totalErrors: active.reduce((sum, r) => sum + r.errors.length, 0),
+    totalBlocked: active.reduce((sum, r) => sum + r.blocked.length, 0),
+    totalWarnings: active.reduce((sum, r) => sum + r.warnings.length, 0),
+    totalUnchanged: results.length - active.length,
+    totalQuarantined: active.reduce((sum, r) => sum + (r.quarantined ?? 0), 0),
+    totalDisappeared: active.reduce((sum, r) => sum + (r.disappeared ?? 0), 0),
     totalDuration_ms: Date.now() - startTime,
+    runId: recorder?.id ?? null,
+    resolution,
+    changes,
   };
 }
 
-export async function runScraper(scraperName: string, saveToDb = true): Promise<ScraperResult> {
-  const scraper = scrapers.find(
-    (s) => s.name.toLowerCase().replace(/\s+/g, "-") === scraperName.toLowerCase()
-  );
+export async function runScraper(
+  scraperName: string,
+  saveToDb = true,
+  options: RunnerOptions = {}
+): Promise<ScraperResult> {
+  const { trigger = "api", ...runOptions } = options;
+  const scraper = scrapers.find((s) => s.key === scraperName.toLowerCase());
 
   if (!scraper) {
     return {
       source: scraperName,
       events: [],
-      errors: [`Scraper not found: ${scraperName}`],
+      errors: [{ kind: "validation", severity: "fatal", message: `Scraper not found: ${scraperName}` }],
+      warnings: [],
+      blocked: [],
+      unchanged: false,
+      pages: 0,
+      readThrough: null,
       duration_ms: 0,
     };
   }
 
-  const result = await scraper.run();
+  const recorder = saveToDb ? await RunRecorder.start(trigger) : null;
+  const startedAt = new Date();
+  const result = await runAndSave(scraper, saveToDb, runOptions, recorder);
 
-  if (saveToDb && result.events.length > 0) {
-    for (const event of result.events) {
-      try {
-        await upsertEventAsync(event);
-      } catch (error) {
-        result.errors.push(`Error saving event ${event.id}: ${error}`);
-      }
-    }
-  }
+  await recorder?.recordSource(scraper.key, startedAt, result);
+  await recorder?.finish([result]);
+  result.resolution = (await resolveSaved([result], recorder?.id ?? null, [scraper.sourceName])) ?? undefined;
 
   return result;
 }
 
-// List available scrapers
-export function listScrapers(): { name: string; key: string; baseUrl: string }[] {
-  return scrapers.map((s) => ({
-    name: s.name,
-    key: s.name.toLowerCase().replace(/\s+/g, "-"),
-    baseUrl: s.baseUrl,
-  }));
+// List available scrapers with their robots.txt status
+export async function listScrapers(): Promise<
+  { name: string; key: string; baseUrl: string; policy: CrawlPolicyStatus }[]
+> {
+  return Promise.all(
+    scrapers.map(async (s) => ({
+      name: s.name,
+      key: s.key,
+      baseUrl: s.baseUrl,
+      policy: await getCrawlPolicyStatus(`${s.baseUrl}/`),
+    }))
+  );
 }
@@ -0,0 +1,55 @@
+import { BaseScraper, ScrapedEvent, StructuredEventDefaults } from "./base";
+import { ScrapeError } from "./errors";
+
+/**
+ * JSON-LD source definition
+ *
+ * For sites that embed schema.org Event data, a list of pages is all that's
+ * needed: events, dates, venues, prices and images come from the markup.
+ */
+export interface JsonLdDefinition {
+  name: string;
+  baseUrl: string;
+  urls: string[]; // Absolute, or relative to baseUrl
+  defaults: StructuredEventDefaults;
+}
+
+export class JsonLdScraper extends BaseScraper {
+  name: string;
+  baseUrl: string;
+
+  constructor(private definition: JsonLdDefinition) {
+    super();
+    if (!definition.name || !definition.baseUrl || !definition.urls?.length || !definition.defaults?.idPrefix) {
+      throw new Error(
+        `Invalid JSON-LD source "${definition.name || "?"}": name, baseUrl, urls and defaults.idPrefix are required`
+      );
+    }
+    this.name = definition.name;
+    this.baseUrl = definition.baseUrl.replace(/\/$/, "");
+  }
+
+  async scrape(): Promise<ScrapedEvent[]> {
+    const events: ScrapedEvent[] = [];
+
+    for (const path of this.definition.urls) {
+      const url = new URL(path, `${this.baseUrl}/`).toString();
+      try {
+        const html = await this.fetch(url);
+        const found = this.extractStructuredEvents(html, url, this.definition.defaults);
+
+        if (found.length === 0) {
+          this.recordError(new ScrapeError("parse", "No schema.org events found", url), { severity: "warning" });
+        }
+
+        for (const event of found) {
+          if (!events.some((e) => e.id === event.id)) events.push(event);
+        }
+      } catch (error) {
+        this.recordError(error, { url, context: "JSON-LD page" });
+      }
+    }
+
+    return events;
+  }
+}
@@ -1,5 +1,7 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import type { EventDetails } from "./enrich";
+import { findGazetteerVenue } from "@/lib/venues";
 
 export class KabukiBitoScraper extends BaseScraper {
   name = "Kabuki-bito";
@@ -15,56 +17,71 @@ export class KabukiBitoScraper extends BaseScraper {
       const html = await this.fetch(theatersUrl);
       const $ = cheerio.load(html);
 
-      // Kabuki-bito lists performances by theater
-      $(".theater-section, .performance-list, article, .kouen-item, .play-item").each((_, element) => {
-        try {
-          const $el = $(element);
-
-          const title = $el.find("h2, h3, .title, .kouen-title, .play-title").first().text().trim();
-          const link = $el.find("a").first().attr("href");
-
-          if (!title || !link) return;
-
-          const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
-
-          const dateText = $el.find(".date, .period, .schedule, .kouen-date").text().trim();
-          const venueText = $el.find(".theater, .venue, .hall, .kouen-theater").text().trim();
-          const priceText = $el.find(".price, .ticket-price").text().trim();
-          const imageUrl = $el.find("img").first().attr("src") || null;
-
-          // Parse date range for kabuki (often month-long runs)
-          const dates = this.parseKabukiDateRange(dateText);
-
-          events.push({
-            id: this.generateId("kabuki", fullUrl),
-            title_ja: title,
-            title_en: null,
-            description_ja: null,
-            description_en: null,
-            date_start: dates.start,
-            date_end: dates.end,
-            venue_name: venueText || "歌舞伎座",
-            venue_address: null,
-            area: this.detectKabukiArea(venueText),
-            category: "kabuki",
-            tags: ["traditional", "kabuki", "theatre"],
-            price_min: this.parsePrice(priceText),
-            price_max: null,
-            source_url: fullUrl,
-            source_name: this.name,
-            image_url: imageUrl,
-          });
-        } catch (error) {
-          console.error("Error parsing Kabuki-bito event:", error);
-        }
+      const structured = this.extractStructuredEvents(html, theatersUrl, {
+        idPrefix: "kabuki",
+        category: "kabuki",
+        tags: ["traditional", "kabuki", "theatre"],
       });
+      events.push(...structured);
+
+      if (structured.length === 0) {
+        // Kabuki-bito lists performances by theater
+        $(".theater-section, .performance-list, article, .kouen-item, .play-item").each((_, element) => {
+          try {
+            const $el = $(element);
+
+            const title = $el.find("h2, h3, .title, .kouen-title, .play-title").first().text().trim();
+            const link = $el.find("a").first().attr("href");
+
+            if (!title || !link) return;
+
+            const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
+
+            const dateText = $el.find(".date, .period, .schedule, .kouen-date").text().trim();
+            const venueText = $el.find(".theater, .venue, .hall, .kouen-theater").text().trim();
+            const priceText = $el.find(".price, .ticket-price").text().trim();
+            const imageUrl = $el.find("img").first().attr("src") || null;
+
+            // Kabuki runs are often month-long, sometimes given only as "1月公演"
+            const dates = this.parseDateRange(dateText);
+            // 昼の部/夜の部 play every day of the run
+            const performances = this.parsePerformances($el.text(), null);
+
+            events.push({
+              id: this.generateId("kabuki", fullUrl),
+              title_ja: title,
+              title_en: null,
+              description_ja: null,
+              description_en: null,
+              date_start: dates?.start ?? null,
+              date_end: dates?.end ?? null,
+              venue_name: venueText || "歌舞伎座",
+              venue_address: null,
+              area: this.detectKabukiArea(venueText),
+              category: "kabuki",
+              tags: ["traditional", "kabuki", "theatre"],
+              price_min: this.parsePrice(priceText),
+              price_max: null,
+              price_tiers: this.parsePriceTiers(priceText),
+              source_url: fullUrl,
+              source_name: this.name,
+              image_url: imageUrl,
+              performances: performances.length > 0 ? performances : undefined,
+              raw_text: this.rawText($el.text()),
+            });
+          } catch (error) {
+            this.recordError(error, { url: theatersUrl, context: "performance item", severity: "warning" });
+          }
+        });
+      }
     } catch (error) {
-      console.error("Error fetching Kabuki-bito theaters:", error);
+      this.recordError(error, { url: theatersUrl, context: "theaters" });
     }
 
     // Also try the schedule/calendar page
+    const scheduleUrl = `${this.baseUrl}/schedule/`;
     try {
-      const scheduleHtml = await this.fetch(`${this.baseUrl}/schedule/`);
+      const scheduleHtml = await this.fetch(scheduleUrl);
       const $schedule = cheerio.load(scheduleHtml);
 
       $schedule(".schedule-item, .calendar-event, tr, .performance").each((_, element) => {
@@ -83,7 +100,7 @@ export class KabukiBitoScraper extends BaseScraper {
           const dateText = $el.find(".date, time, td:first-child").text().trim();
           const venueText = $el.find(".venue, .theater, td:nth-child(2)").text().trim();
 
-          const dates = this.parseKabukiDateRange(dateText);
+          const dates = this.parseDateRange(dateText);
 
           events.push({
             id: this.generateId("kabuki", fullUrl + title),
@@ -91,8 +108,8 @@ export class KabukiBitoScraper extends BaseScraper {
             title_en: null,
             description_ja: null,
             description_en: null,
-            date_start: dates.start,
-            date_end: dates.end,
+            date_start: dates?.start ?? null,
+            date_end: dates?.end ?? null,
             venue_name: venueText || "歌舞伎座",
             venue_address: null,
             area: this.detectKabukiArea(venueText),
@@ -103,81 +120,42 @@ export class KabukiBitoScraper extends BaseScraper {
             source_url: fullUrl,
             source_name: this.name,
             image_url: null,
+            raw_text: this.rawText($el.text()),
           });
-        } catch {
-          // Skip individual errors
+        } catch (error) {
+          this.recordError(error, { url: scheduleUrl, context: "schedule row", severity: "warning" });
         }
       });
-    } catch {
+    } catch (error) {
       // Schedule page might not exist
+      this.recordError(error, { url: scheduleUrl, context: "schedule", severity: "warning" });
     }
 
     return events;
   }
 
-  private parseKabukiDateRange(dateStr: string): { start: string; end: string | null } {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-
-    // Pattern: 1月2日〜26日 or 1月2日～26日
-    const rangeMatch = dateStr.match(/(\d{1,2})月(\d{1,2})日[〜～\-](\d{1,2})日/);
-    if (rangeMatch) {
-      const [, month, startDay, endDay] = rangeMatch;
-      return {
-        start: `${currentYear}-${month.padStart(2, "0")}-${startDay.padStart(2, "0")}`,
-        end: `${currentYear}-${month.padStart(2, "0")}-${endDay.padStart(2, "0")}`,
-      };
-    }
-
-    // Pattern: 1月2日〜2月15日
-    const fullRangeMatch = dateStr.match(/(\d{1,2})月(\d{1,2})日[〜～\-](\d{1,2})月(\d{1,2})日/);
-    if (fullRangeMatch) {
-      const [, startMonth, startDay, endMonth, endDay] = fullRangeMatch;
-      let endYear = currentYear;
-      if (parseInt(endMonth) < parseInt(startMonth)) {
-        endYear++;
-      }
-      return {
-        start: `${currentYear}-${startMonth.padStart(2, "0")}-${startDay.padStart(2, "0")}`,
-        end: `${endYear}-${endMonth.padStart(2, "0")}-${endDay.padStart(2, "0")}`,
-      };
-    }
+  // Performance pages have the synopsis, the 昼の部/夜の部 programs and a 等席 price table
+  protected extractDetails(html: string, event: ScrapedEvent): EventDetails {
+    const details = super.extractDetails(html, event);
+    const $ = cheerio.load(html);
 
-    // Single date: 1月15日
-    const singleMatch = dateStr.match(/(\d{1,2})月(\d{1,2})日/);
-    if (singleMatch) {
-      const [, month, day] = singleMatch;
-      return {
-        start: `${currentYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`,
-        end: null,
-      };
-    }
+    const description = $(".kouen-detail, .play-description, .outline, .story, .midokoro").first().text().trim();
+    const priceText = $(".price, .ticket-price, table:contains('等席')").text();
+    const prices = this.parsePriceTable(priceText);
+    const tiers = this.parsePriceTiers(priceText);
+    const performances = this.parsePerformances($(".program, .kouen-program, .schedule, .time").text(), null);
 
     return {
-      start: now.toISOString().split("T")[0],
-      end: null,
+      ...details,
+      description_ja: description || details.description_ja,
+      price_min: prices.min ?? details.price_min,
+      price_max: prices.max ?? details.price_max,
+      price_tiers: tiers.length > 0 ? tiers : details.price_tiers,
+      performances,
     };
   }
 
   private detectKabukiArea(venueText: string): string {
-    const venues: Record<string, string> = {
-      歌舞伎座: "Tokyo",
-      新橋演舞場: "Tokyo",
-      国立劇場: "Tokyo",
-      明治座: "Tokyo",
-      浅草公会堂: "Tokyo",
-      南座: "Kyoto",
-      松竹座: "Osaka",
-      御園座: "Nagoya",
-      博多座: "Fukuoka",
-    };
-
-    for (const [venue, area] of Object.entries(venues)) {
-      if (venueText.includes(venue)) {
-        return area;
-      }
-    }
-
-    return this.detectArea(venueText);
+    return findGazetteerVenue(venueText)?.area ?? this.detectArea(venueText);
   }
 }
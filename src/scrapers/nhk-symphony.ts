@@ -1,5 +1,6 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import type { EventDetails } from "./enrich";
 
 export class NHKSymphonyScraper extends BaseScraper {
   name = "NHK Symphony";
@@ -8,62 +9,76 @@ export class NHKSymphonyScraper extends BaseScraper {
   async scrape(): Promise<ScrapedEvent[]> {
     const events: ScrapedEvent[] = [];
 
+    const concertUrl = `${this.baseUrl}/concert/`;
+    const englishUrl = `${this.baseUrl}/en/concert/`;
+
     try {
       // Concert schedule page
-      const html = await this.fetch(`${this.baseUrl}/concert/`);
+      const html = await this.fetch(concertUrl);
       const $ = cheerio.load(html);
 
-      // NHK Symphony typically lists concerts in a schedule format
-      $(".concert-item, .schedule-item, article, .concert-list li, .event-item").each((_, element) => {
-        try {
-          const $el = $(element);
-
-          const titleEl = $el.find("h2, h3, .title, .concert-title, a").first();
-          const title = titleEl.text().trim();
-          const link = titleEl.attr("href") || $el.find("a").first().attr("href");
-
-          if (!title || title.length < 3) return;
-
-          const fullUrl = link
-            ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
-            : `${this.baseUrl}/concert/`;
-
-          // Skip duplicates
-          if (events.some((e) => e.source_url === fullUrl && e.title_ja === title)) return;
-
-          const dateText = $el.find(".date, .concert-date, time, .schedule-date").text().trim();
-          const venueText = $el.find(".venue, .hall, .place, .location").text().trim();
-          const programText = $el.find(".program, .description, .conductor, p").text().trim();
-
-          const dateStart = this.parseJapaneseDate(dateText);
-
-          events.push({
-            id: this.generateId("nhkso", fullUrl + title),
-            title_ja: title,
-            title_en: null,
-            description_ja: programText || null,
-            description_en: null,
-            date_start: dateStart || new Date().toISOString().split("T")[0],
-            date_end: null,
-            venue_name: venueText || "NHKホール",
-            venue_address: "東京都渋谷区神南2-2-1",
-            area: "Tokyo",
-            category: "orchestra",
-            tags: ["classical", "orchestra", "symphony"],
-            price_min: 5000,
-            price_max: 15000,
-            source_url: fullUrl,
-            source_name: this.name,
-            image_url: null,
-          });
-        } catch (error) {
-          console.error("Error parsing NHK Symphony event:", error);
-        }
+      const structured = this.extractStructuredEvents(html, concertUrl, {
+        idPrefix: "nhkso",
+        area: "tokyo",
+        category: "orchestra",
+        tags: ["classical", "orchestra", "symphony"],
       });
+      events.push(...structured);
+
+      if (structured.length === 0) {
+        // NHK Symphony typically lists concerts in a schedule format
+        $(".concert-item, .schedule-item, article, .concert-list li, .event-item").each((_, element) => {
+          try {
+            const $el = $(element);
+
+            const titleEl = $el.find("h2, h3, .title, .concert-title, a").first();
+            const title = titleEl.text().trim();
+            const link = titleEl.attr("href") || $el.find("a").first().attr("href");
+
+            if (!title || title.length < 3) return;
+
+            const fullUrl = link
+              ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
+              : `${this.baseUrl}/concert/`;
+
+            // Skip duplicates
+            if (events.some((e) => e.source_url === fullUrl && e.title_ja === title)) return;
+
+            const dateText = $el.find(".date, .concert-date, time, .schedule-date").text().trim();
+            const venueText = $el.find(".venue, .hall, .place, .location").text().trim();
+            const programText = $el.find(".program, .description, .conductor, p").text().trim();
+
+            const dateStart = this.parseDate(dateText);
+
+            events.push({
+              id: this.generateId("nhkso", fullUrl + title),
+              title_ja: title,
+              title_en: null,
+              description_ja: programText || null,
+              description_en: null,
+              date_start: dateStart,
+              date_end: null,
+              venue_name: venueText || "NHKホール",
+              venue_address: "東京都渋谷区神南2-2-1",
+              area: "tokyo",
+              category: "orchestra",
+              tags: ["classical", "orchestra", "symphony"],
+              price_min: 5000,
+              price_max: 15000,
+              source_url: fullUrl,
+              source_name: this.name,
+              image_url: null,
+              raw_text: this.rawText($el.text()),
+            });
+          } catch (error) {
+            this.recordError(error, { url: concertUrl, context: "concert item", severity: "warning" });
+          }
+        });
+      }
 
       // Also try the English page
       try {
-        const enHtml = await this.fetch(`${this.baseUrl}/en/concert/`);
+        const enHtml = await this.fetch(englishUrl);
         const $en = cheerio.load(enHtml);
 
         $en(".concert-item, article, .event-item").each((_, element) => {
@@ -85,45 +100,36 @@ export class NHKSymphonyScraper extends BaseScraper {
             if (matchingEvent && !matchingEvent.title_en) {
               matchingEvent.title_en = title;
             }
-          } catch {
-            // Skip individual errors
+          } catch (error) {
+            this.recordError(error, { url: englishUrl, context: "English concert item", severity: "warning" });
           }
         });
-      } catch {
+      } catch (error) {
         // English page might not exist
+        this.recordError(error, { url: englishUrl, context: "English titles", severity: "warning" });
       }
     } catch (error) {
-      console.error("Error fetching NHK Symphony:", error);
+      this.recordError(error, { url: concertUrl, context: "concert schedule" });
     }
 
     return events;
   }
 
-  private parseJapaneseDate(dateStr: string): string | null {
-    if (!dateStr) return null;
-
-    const now = new Date();
-    const currentYear = now.getFullYear();
-
-    // Pattern: 2025年1月15日
-    const fullMatch = dateStr.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
-    if (fullMatch) {
-      const [, year, month, day] = fullMatch;
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    // Pattern: 1月15日
-    const shortMatch = dateStr.match(/(\d{1,2})月(\d{1,2})日/);
-    if (shortMatch) {
-      const [, month, day] = shortMatch;
-      let year = currentYear;
-      if (parseInt(month) < now.getMonth() + 1) {
-        year++;
-      }
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    return null;
+  // Concert pages list the program and the S-E seat prices
+  protected extractDetails(html: string, event: ScrapedEvent): EventDetails {
+    const details = super.extractDetails(html, event);
+    const $ = cheerio.load(html);
+
+    const program = $(".program, .concert-program, .concert-detail").first().text().replace(/\s+/g, " ").trim();
+    const prices = this.parsePriceTable($(".price, .ticket, table:contains('S席')").text());
+
+    return {
+      ...details,
+      description_ja: program || details.description_ja,
+      // The listing's 5000-15000 is only a placeholder; keep it unless the page has real prices
+      price_min: prices.min ?? details.price_min,
+      price_max: prices.max ?? details.price_max,
+    };
   }
 
   private titlesMatch(ja: string, en: string): boolean {
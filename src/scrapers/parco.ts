@@ -1,83 +1,92 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import { GazetteerVenue, gazetteerVenue } from "@/lib/venues";
 
 export class ParcoScraper extends BaseScraper {
   name = "Parco";
   baseUrl = "https://art.parco.jp";
 
   // Parco locations with anime/pop culture events
-  private locations = [
-    { name: "渋谷PARCO", area: "Tokyo", address: "東京都渋谷区宇田川町15-1" },
-    { name: "池袋PARCO", area: "Tokyo", address: "東京都豊島区南池袋1-28-2" },
-    { name: "名古屋PARCO", area: "Nagoya", address: "名古屋市中区栄3-29-1" },
-    { name: "心斎橋PARCO", area: "Osaka", address: "大阪市中央区心斎橋筋1-8-3" },
-    { name: "福岡PARCO", area: "Fukuoka", address: "福岡市中央区天神2-11-1" },
-  ];
+  private locations = ["shibuya-parco", "ikebukuro-parco", "nagoya-parco", "shinsaibashi-parco", "fukuoka-parco"].map(
+    gazetteerVenue
+  );
 
   async scrape(): Promise<ScrapedEvent[]> {
     const events: ScrapedEvent[] = [];
 
+    const artUrl = `${this.baseUrl}/`;
+    const shibuyaUrl = "https://shibuya.parco.jp/event/";
+
     try {
       // Main art/exhibition page
-      const html = await this.fetch(`${this.baseUrl}/`);
+      const html = await this.fetch(artUrl);
       const $ = cheerio.load(html);
 
-      // Parco art site lists exhibitions and pop-up events
-      $(".exhibition-item, .event-card, article, .news-item, .pickup-item").each((_, element) => {
-        try {
-          const $el = $(element);
-
-          const titleEl = $el.find("h2, h3, .title, a.title, .event-title").first();
-          const title = titleEl.text().trim() || $el.find("a").first().text().trim();
-          const link = titleEl.attr("href") || $el.find("a").first().attr("href");
-
-          if (!title || title.length < 3) return;
-
-          const fullUrl = link
-            ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
-            : this.baseUrl;
-
-          // Skip duplicates
-          if (events.some((e) => e.source_url === fullUrl)) return;
-
-          const dateText = $el.find(".date, .period, .schedule, time").text().trim();
-          const venueText = $el.find(".venue, .place, .location, .shop").text().trim();
-          const description = $el.find(".description, .excerpt, .text, p").first().text().trim();
-          const imageUrl = $el.find("img").first().attr("src") ||
-                          $el.find("img").first().attr("data-src") ||
-                          null;
-
-          const dates = this.parseDateRange(dateText);
-          const location = this.matchLocation(venueText || title);
-          const category = this.detectEventType(title + " " + description);
-
-          events.push({
-            id: this.generateId("parco", fullUrl),
-            title_ja: title,
-            title_en: null,
-            description_ja: description || null,
-            description_en: null,
-            date_start: dates.start,
-            date_end: dates.end,
-            venue_name: location?.name || venueText || "PARCO",
-            venue_address: location?.address || null,
-            area: location?.area || "Tokyo",
-            category,
-            tags: this.generateTags(title, description),
-            price_min: null,
-            price_max: null,
-            source_url: fullUrl,
-            source_name: this.name,
-            image_url: imageUrl,
-          });
-        } catch (error) {
-          console.error("Error parsing Parco event:", error);
-        }
-      });
+      const structured = this.extractStructuredEvents(html, artUrl, { idPrefix: "parco" }).map((event) => ({
+        ...event,
+        tags: this.generateTags(event.title_ja, event.description_ja ?? ""),
+      }));
+      events.push(...structured);
+
+      if (structured.length === 0) {
+        // Parco art site lists exhibitions and pop-up events
+        $(".exhibition-item, .event-card, article, .news-item, .pickup-item").each((_, element) => {
+          try {
+            const $el = $(element);
+
+            const titleEl = $el.find("h2, h3, .title, a.title, .event-title").first();
+            const title = titleEl.text().trim() || $el.find("a").first().text().trim();
+            const link = titleEl.attr("href") || $el.find("a").first().attr("href");
+
+            if (!title || title.length < 3) return;
+
+            const fullUrl = link
+              ? link.startsWith("http") ? link : `${this.baseUrl}${link}`
+              : this.baseUrl;
+
+            // Skip duplicates
+            if (events.some((e) => e.source_url === fullUrl)) return;
+
+            const dateText = $el.find(".date, .period, .schedule, time").text().trim();
+            const venueText = $el.find(".venue, .place, .location, .shop").text().trim();
+            const description = $el.find(".description, .excerpt, .text, p").first().text().trim();
+            const imageUrl = $el.find("img").first().attr("src") ||
+                            $el.find("img").first().attr("data-src") ||
+                            null;
+
+            const dates = this.parseDateRange(dateText);
+            const location = this.matchLocation(venueText || title);
+
+            events.push({
+              id: this.generateId("parco", fullUrl),
+              title_ja: title,
+              title_en: null,
+              description_ja: description || null,
+              description_en: null,
+              date_start: dates?.start ?? null,
+              date_end: dates?.end ?? null,
+              venue_name: location?.name_ja || venueText || "PARCO",
+              venue_id: location?.id ?? null,
+              venue_address: location?.address || null,
+              area: location?.area || "tokyo",
+              category: null,
+              tags: this.generateTags(title, description),
+              price_min: null,
+              price_max: null,
+              source_url: fullUrl,
+              source_name: this.name,
+              image_url: imageUrl,
+              raw_text: this.rawText($el.text()),
+            });
+          } catch (error) {
+            this.recordError(error, { url: artUrl, context: "exhibition item", severity: "warning" });
+          }
+        });
+      }
 
       // Also check Shibuya Parco specifically (known for anime collabs)
       try {
-        const shibuyaHtml = await this.fetch("https://shibuya.parco.jp/event/");
+        const shibuyaHtml = await this.fetch(shibuyaUrl);
         const $shibuya = cheerio.load(shibuyaHtml);
 
         $shibuya(".event-item, article, .card, .list-item").each((_, element) => {
@@ -90,7 +99,7 @@ export class ParcoScraper extends BaseScraper {
 
             const fullUrl = link
               ? link.startsWith("http") ? link : `https://shibuya.parco.jp${link}`
-              : "https://shibuya.parco.jp/event/";
+              : shibuyaUrl;
 
             // Skip duplicates
             if (events.some((e) => e.source_url === fullUrl || e.title_ja === title)) return;
@@ -100,7 +109,6 @@ export class ParcoScraper extends BaseScraper {
             const imageUrl = $el.find("img").first().attr("src") || null;
 
             const dates = this.parseDateRange(dateText);
-            const category = this.detectEventType(title);
 
             events.push({
               id: this.generateId("parco-shibuya", fullUrl),
@@ -108,82 +116,39 @@ export class ParcoScraper extends BaseScraper {
               title_en: null,
               description_ja: floorText || null,
               description_en: null,
-              date_start: dates.start,
-              date_end: dates.end,
-              venue_name: "渋谷PARCO" + (floorText ? ` ${floorText}` : ""),
-              venue_address: "東京都渋谷区宇田川町15-1",
-              area: "Tokyo",
-              category,
+              date_start: dates?.start ?? null,
+              date_end: dates?.end ?? null,
+              venue_name: this.locations[0].name_ja + (floorText ? ` ${floorText}` : ""),
+              venue_id: this.locations[0].id,
+              venue_address: this.locations[0].address,
+              area: this.locations[0].area,
+              category: null,
               tags: this.generateTags(title, ""),
               price_min: null,
               price_max: null,
               source_url: fullUrl,
               source_name: this.name,
               image_url: imageUrl,
+              raw_text: this.rawText($el.text()),
             });
-          } catch {
-            // Skip individual errors
+          } catch (error) {
+            this.recordError(error, { url: shibuyaUrl, context: "Shibuya event item", severity: "warning" });
           }
         });
-      } catch {
+      } catch (error) {
         // Shibuya Parco page might have different structure
+        this.recordError(error, { url: shibuyaUrl, context: "Shibuya events", severity: "warning" });
       }
     } catch (error) {
-      console.error("Error fetching Parco:", error);
+      this.recordError(error, { url: artUrl, context: "art listing" });
     }
 
     return events;
   }
 
-  private parseDateRange(dateStr: string): { start: string; end: string | null } {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-
-    // Pattern: 2025.1.15(水)～2.28(金) or 2025年1月15日〜2月28日
-    const rangeMatch = dateStr.match(
-      /(\d{4})?[年.]?(\d{1,2})[月.](\d{1,2})日?[（(]?[月火水木金土日]?[）)]?[〜～\-–](\d{1,2})?[月.]?(\d{1,2})日?/
-    );
-    if (rangeMatch) {
-      const [, year, startMonth, startDay, endMonthOrDay, endDay] = rangeMatch;
-      const startYear = year ? parseInt(year) : currentYear;
-      let endMonth = startMonth;
-      let actualEndDay = endDay;
-
-      if (endDay) {
-        endMonth = endMonthOrDay;
-        actualEndDay = endDay;
-      } else {
-        actualEndDay = endMonthOrDay;
-      }
-
-      return {
-        start: `${startYear}-${startMonth.padStart(2, "0")}-${startDay.padStart(2, "0")}`,
-        end: actualEndDay
-          ? `${startYear}-${endMonth.padStart(2, "0")}-${actualEndDay.padStart(2, "0")}`
-          : null,
-      };
-    }
-
-    // Single date
-    const singleMatch = dateStr.match(/(\d{4})?[年.]?(\d{1,2})[月.](\d{1,2})/);
-    if (singleMatch) {
-      const [, year, month, day] = singleMatch;
-      const startYear = year ? parseInt(year) : currentYear;
-      return {
-        start: `${startYear}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`,
-        end: null,
-      };
-    }
-
-    return {
-      start: now.toISOString().split("T")[0],
-      end: null,
-    };
-  }
-
-  private matchLocation(text: string): { name: string; area: string; address: string } | null {
+  private matchLocation(text: string): GazetteerVenue | null {
     for (const loc of this.locations) {
-      if (text.includes(loc.name) || text.includes(loc.name.replace("PARCO", "パルコ"))) {
+      if ([loc.name_ja, ...loc.aliases].some((name) => text.includes(name))) {
         return loc;
       }
     }
@@ -197,31 +162,6 @@ export class ParcoScraper extends BaseScraper {
     return null;
   }
 
-  private detectEventType(text: string): string {
-    const lowerText = text.toLowerCase();
-
-    // Anime/manga keywords
-    if (
-      /アニメ|anime|漫画|manga|コラボ|collab|キャラクター|character|ポップアップ|pop.?up|グッズ|goods/.test(
-        lowerText
-      )
-    ) {
-      return "anime";
-    }
-
-    // Art/exhibition
-    if (/展|exhibition|アート|art|ギャラリー|gallery/.test(lowerText)) {
-      return "art";
-    }
-
-    // Fashion/shopping
-    if (/ファッション|fashion|ショップ|shop|ストア|store/.test(lowerText)) {
-      return "event";
-    }
-
-    return "event";
-  }
-
   private generateTags(title: string, description: string): string[] {
     const tags: string[] = [];
     const text = (title + " " + description).toLowerCase();
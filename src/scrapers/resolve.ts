@@ -0,0 +1,295 @@
+/**
+ * Cross-source entity resolution
+ *
+ * Runs after events are saved. Rows from different sources that describe
+ * the same event (same title once kana and width are folded, overlapping
+ * dates, same venue) are linked to one canonical event, stored in the
+ * events table alongside them:
+ *
+ * - every source's page is kept in the canonical event's ticket_links
+ * - each field comes from the best source that has it (SOURCE_RANK), except
+ *   prices, which span all sources, and tags and categories, which are
+ *   combined
+ * - a canonical event keeps its ID while any of its rows still match; one
+ *   that's no longer needed becomes an alias of what replaced it
+ *
+ * /api/events lists canonical events (and rows nothing matched) unless
+ * asked for the raw rows.
+ */
+
+import {
+  Event,
+  EventInput,
+  Performance,
+  TicketLink,
+  getPerformancesAsync,
+  getRawEventsAsync,
+  renameEventAsync,
+  retireCanonicalAsync,
+  setCanonicalIdAsync,
+  upsertEventAsync,
+} from "@/lib/db";
+import { sourceKey, stableEventId } from "@/lib/ids";
+import { isPlaceholderVenue } from "@/lib/venues";
+import { areasOverlap } from "@/lib/areas";
+
+export interface ResolveStats {
+  groups: number; // Canonical events covering two or more sources
+  linked: number; // Source rows linked to one of them
+  retired: number; // Canonical events no longer needed
+}
+
+// Official sites first, then ticketing, then listings and aggregators
+const SOURCE_RANK = [
+  "kabuki-bito",
+  "nhk-symphony",
+  "billboard-live",
+  "parco",
+  "ticket-pia",
+  "tokyo-art-beat",
+  "japan-travel",
+  "tokyo-cheapo",
+];
+
+// Events that ended longer ago than this are left as they are
+const LOOKBACK_DAYS = 30;
+
+// Character-bigram overlap for titles that differ by a word or two
+const TITLE_SIMILARITY = 0.8;
+// A title contained in another matches if it's at least this share of it
+const CONTAINED_RATIO = 0.5;
+const MIN_TITLE_LENGTH = 4;
+
+/**
+ * Fold the differences sources introduce: full-width letters and digits
+ * (NFKC), katakana vs hiragana, case, spacing, brackets and punctuation.
+ */
+export function normalizeTitle(text: string): string {
+  return text
+    .normalize("NFKC")
+    .toLowerCase()
+    .replace(/[ァ-ヶ]/g, (ch) => String.fromCharCode(ch.charCodeAt(0) - 0x60))
+    .replace(/[\s\p{P}\p{S}]/gu, "");
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const gram = text.slice(i, i + 2);
+    counts.set(gram, (counts.get(gram) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function similarity(a: string, b: string): number {
+  const gramsA = bigrams(a);
+  const gramsB = bigrams(b);
+  let shared = 0;
+  for (const [gram, count] of gramsA) shared += Math.min(count, gramsB.get(gram) ?? 0);
+  const total = Math.max(a.length - 1, 0) + Math.max(b.length - 1, 0);
+  return total > 0 ? (2 * shared) / total : 0;
+}
+
+function sameTitle(a: string, b: string): boolean {
+  if (a.length < MIN_TITLE_LENGTH || b.length < MIN_TITLE_LENGTH) return a === b && a.length > 0;
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (longer.includes(shorter) && shorter.length / longer.length >= CONTAINED_RATIO) return true;
+  return similarity(a, b) >= TITLE_SIMILARITY;
+}
+
+interface Candidate {
+  event: Event;
+  titles: string[]; // Normalized JA and EN titles
+  venue: string; // Normalized, "" when generic
+  start: string;
+  end: string;
+  rank: number;
+}
+
+function toCandidate(event: Event): Candidate {
+  const titles = [...new Set([event.title_ja, event.title_en].filter((t): t is string => !!t).map(normalizeTitle))];
+  const rank = SOURCE_RANK.indexOf(sourceKey(event.source_name));
+  return {
+    event,
+    titles,
+    venue: isPlaceholderVenue(event.venue_name) ? "" : normalizeTitle(event.venue_name),
+    start: event.date_start,
+    end: event.date_end ?? event.date_start,
+    rank: rank === -1 ? SOURCE_RANK.length : rank,
+  };
+}
+
+function sameVenue(a: Candidate, b: Candidate): boolean {
+  if (a.event.venue_id && a.event.venue_id === b.event.venue_id) return true;
+  if (!a.venue || !b.venue) return areasOverlap(a.event.area, b.event.area);
+  return a.venue === b.venue || a.venue.includes(b.venue) || b.venue.includes(a.venue);
+}
+
+function isSameEvent(a: Candidate, b: Candidate): boolean {
+  return (
+    a.event.source_name !== b.event.source_name &&
+    a.start <= b.end &&
+    b.start <= a.end &&
+    sameVenue(a, b) &&
+    a.titles.some((x) => b.titles.some((y) => sameTitle(x, y)))
+  );
+}
+
+// Groups of two or more candidates describing the same event
+function groupCandidates(candidates: Candidate[]): Candidate[][] {
+  const parent = candidates.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  // Sorted by start date, so only events starting before one ends can overlap it
+  const sorted = candidates.map((_, i) => i).sort((a, b) => candidates[a].start.localeCompare(candidates[b].start));
+  for (let x = 0; x < sorted.length; x++) {
+    const a = candidates[sorted[x]];
+    for (let y = x + 1; y < sorted.length && candidates[sorted[y]].start <= a.end; y++) {
+      if (isSameEvent(a, candidates[sorted[y]])) parent[find(sorted[y])] = find(sorted[x]);
+    }
+  }
+
+  const groups = new Map<number, Candidate[]>();
+  candidates.forEach((candidate, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), candidate]);
+  });
+  return [...groups.values()].filter((group) => group.length > 1);
+}
+
+// Reuse the canonical ID most of the group already has, so links stay valid
+function canonicalIdFor(group: Candidate[], taken: Set<string>): string {
+  const counts = new Map<string, number>();
+  for (const { event } of group) {
+    if (event.canonical_id && !taken.has(event.canonical_id)) {
+      counts.set(event.canonical_id, (counts.get(event.canonical_id) ?? 0) + 1);
+    }
+  }
+  const reused = [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0]?.[0];
+  if (reused) return reused;
+
+  const memberIds = group.map((c) => c.event.id).sort();
+  return stableEventId("canon", "canonical", memberIds.join(" "));
+}
+
+// Best source first
+function rankMembers(group: Candidate[]): Event[] {
+  return [...group].sort((a, b) => a.rank - b.rank || a.event.id.localeCompare(b.event.id)).map((c) => c.event);
+}
+
+function mergeGroup(id: string, ranked: Event[]): EventInput {
+  const best = ranked[0];
+  const first = <K extends keyof Event>(field: K): Event[K] | null =>
+    ranked.map((e) => e[field]).find((value) => value !== null && value !== undefined && value !== "") ?? null;
+  const longest = (field: "description_ja" | "description_en") =>
+    ranked.map((e) => e[field]).reduce<string | null>((a, b) => (b && b.length > (a?.length ?? 0) ? b : a), null);
+  const prices = ranked.flatMap((e) => [e.price_min, e.price_max]).filter((p): p is number => p !== null);
+  const ticketSource = ranked.find((e) => e.ticket_status) ?? null;
+  // The best source still listing it says whether it's going ahead
+  const listed = ranked.find((e) => e.status !== "disappeared");
+  const lastSeen = ranked.map((e) => e.last_seen_at ?? "").reduce((a, b) => (b > a ? b : a), "");
+
+  const links: TicketLink[] = ranked.map((e) => ({ event_id: e.id, source_name: e.source_name, url: e.source_url }));
+
+  return {
+    id,
+    title_ja: best.title_ja,
+    title_en: first("title_en"),
+    description_ja: longest("description_ja"),
+    description_en: longest("description_en"),
+    date_start: best.date_start,
+    date_end: best.date_end,
+    venue_name: ranked.map((e) => e.venue_name).find((v) => !isPlaceholderVenue(v)) ?? best.venue_name,
+    venue_id: first("venue_id"),
+    venue_address: first("venue_address"),
+    area: best.area,
+    category: best.category,
+    categories: [...new Set([best.category, ...ranked.flatMap((e) => e.categories)])],
+    source_category: best.source_category,
+    tags: [...new Set(ranked.flatMap((e) => e.tags ?? []))],
+    price_min: prices.length > 0 ? Math.min(...prices) : null,
+    price_max: prices.length > 0 ? Math.max(...prices) : null,
+    price_tiers: first("price_tiers"),
+    ticket_status: ticketSource?.ticket_status ?? null,
+    sale_start: ticketSource?.sale_start ?? null,
+    sale_end: ticketSource?.sale_end ?? null,
+    source_url: best.source_url,
+    source_name: [...new Set(ranked.map((e) => e.source_name))].join(" / "),
+    image_url: first("image_url"),
+    ticket_links: links,
+    status: listed?.status ?? "disappeared",
+    last_seen_at: lastSeen || null,
+  };
+}
+
+/**
+ * Link rows from different sources that describe the same event, and
+ * refresh the canonical events standing in for them. Given `sources` (after
+ * a run of just those), only canonical events their rows join, leave or
+ * were already part of are rewritten; links elsewhere are unchanged anyway.
+ */
+export async function resolveEvents(
+  today = new Date(),
+  runId: number | null = null,
+  sources?: string[]
+): Promise<ResolveStats> {
+  const since = new Date(today.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+  const candidates = (await getRawEventsAsync(since)).map(toCandidate);
+  const stats: ResolveStats = { groups: 0, linked: 0, retired: 0 };
+
+  const ran = sources ? new Set(sources) : null;
+  const touched = new Set(
+    candidates.filter((c) => ran?.has(c.event.source_name) && c.event.canonical_id).map((c) => c.event.canonical_id)
+  );
+
+  const assigned = new Map<string, string>(); // Row ID -> canonical ID
+  const taken = new Set<string>();
+
+  for (const group of groupCandidates(candidates)) {
+    const id = canonicalIdFor(group, taken);
+    taken.add(id);
+    for (const { event } of group) assigned.set(event.id, id);
+    stats.groups++;
+    stats.linked += group.length;
+
+    const changed =
+      !ran || touched.has(id) || group.some((c) => ran.has(c.event.source_name) || c.event.canonical_id !== id);
+    if (!changed) continue;
+
+    // Showtimes come whole from one source rather than being interleaved
+    const ranked = rankMembers(group);
+    let performances: Performance[] = [];
+    for (const member of ranked) {
+      performances = await getPerformancesAsync(member.id);
+      if (performances.length > 0) break;
+    }
+    await upsertEventAsync({ ...mergeGroup(id, ranked), performances }, runId);
+  }
+
+  // Update links that changed, then retire canonical events nothing points at
+  const previous = new Map<string, string[]>(); // Old canonical ID -> its rows
+  const relink = new Map<string | null, string[]>();
+  for (const { event } of candidates) {
+    const next = assigned.get(event.id) ?? null;
+    if (event.canonical_id) previous.set(event.canonical_id, [...(previous.get(event.canonical_id) ?? []), event.id]);
+    if (event.canonical_id !== next) relink.set(next, [...(relink.get(next) ?? []), event.id]);
+  }
+  for (const [canonicalId, eventIds] of relink) {
+    await setCanonicalIdAsync(eventIds, canonicalId);
+  }
+  for (const [oldId, eventIds] of previous) {
+    if (taken.has(oldId)) continue;
+    // Its rows now belong elsewhere; old links follow them
+    const next = eventIds.map((id) => assigned.get(id)).find((id) => id !== undefined);
+    if (next) {
+      await renameEventAsync(oldId, next);
+    } else {
+      // Or nowhere: it's dropped and old links follow its first row
+      await retireCanonicalAsync(oldId, eventIds[0]);
+    }
+    stats.retired++;
+  }
+
+  return stats;
+}
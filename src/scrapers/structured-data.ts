@@ -0,0 +1,206 @@
+/**
+ * schema.org Event extraction
+ *
+ * Many ticketing and museum pages embed their events as JSON-LD
+ * (<script type="application/ld+json">) or microdata (itemscope/itemprop).
+ * This data is far more reliable than guessed class names, so scrapers
+ * prefer it when a page has it.
+ */
+
+import * as cheerio from "cheerio";
+
+export interface SchemaEvent {
+  name: string;
+  description: string | null;
+  startDate: string | null;
+  endDate: string | null;
+  locationName: string | null;
+  address: string | null;
+  prices: number[];
+  image: string | null;
+  url: string | null;
+}
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+type JsonObject = Record<string, unknown>;
+
+// Event and its subtypes (MusicEvent, TheaterEvent, ExhibitionEvent, ...)
+const EVENT_TYPE = /(^|\/)(\w*Event|Festival)$/;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value == null ? [] : [value]);
+
+function text(value: unknown): string | null {
+  if (typeof value === "string") return value.trim() || null;
+  if (typeof value === "number") return String(value);
+  return null;
+}
+
+function isEventType(type: unknown): boolean {
+  return asArray(type).some((t) => typeof t === "string" && EVENT_TYPE.test(t));
+}
+
+function parsePrice(value: unknown): number | null {
+  const str = text(value);
+  if (!str) return null;
+  const price = parseFloat(str.replace(/[,，]/g, "").replace(/[^\d.]/g, ""));
+  return isNaN(price) ? null : Math.round(price);
+}
+
+// ============ JSON-LD ============
+
+function formatAddress(address: unknown): string | null {
+  if (!isObject(address)) return text(address);
+
+  const parts = [address.addressRegion, address.addressLocality, address.streetAddress]
+    .map(text)
+    .filter((part): part is string => part !== null);
+  if (parts.length === 0) return null;
+
+  // Japanese addresses run from prefecture down without separators
+  return parts.some((part) => /[a-z]/i.test(part)) ? parts.reverse().join(", ") : parts.join("");
+}
+
+function jsonLdImage(image: unknown): string | null {
+  for (const item of asArray(image)) {
+    const url = isObject(item) ? text(item.url) || text(item.contentUrl) : text(item);
+    if (url) return url;
+  }
+  return null;
+}
+
+function jsonLdPrices(offers: unknown): number[] {
+  const prices: number[] = [];
+  for (const offer of asArray(offers)) {
+    if (!isObject(offer)) continue;
+    for (const key of ["price", "lowPrice", "highPrice"]) {
+      const price = parsePrice(offer[key]);
+      if (price !== null) prices.push(price);
+    }
+    // AggregateOffer may list its individual offers
+    prices.push(...jsonLdPrices(offer.offers));
+  }
+  return prices;
+}
+
+function fromJsonLd(node: JsonObject): SchemaEvent | null {
+  const name = text(node.name);
+  if (!name) return null;
+
+  // Physical venue first; VirtualLocation and plain strings as fallbacks
+  const locations = asArray(node.location);
+  const place = locations.find((l) => isObject(l) && l.address) ?? locations[0];
+
+  return {
+    name,
+    description: text(node.description),
+    startDate: text(node.startDate),
+    endDate: text(node.endDate),
+    locationName: isObject(place) ? text(place.name) : text(place),
+    address: isObject(place) ? formatAddress(place.address) : null,
+    prices: jsonLdPrices(node.offers),
+    image: jsonLdImage(node.image),
+    url: text(node.url),
+  };
+}
+
+// Walk @graph, ItemList and other wrappers looking for Event nodes
+function collectJsonLd(value: unknown, events: SchemaEvent[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectJsonLd(item, events));
+    return;
+  }
+  if (!isObject(value)) return;
+
+  if (isEventType(value["@type"])) {
+    const event = fromJsonLd(value);
+    if (event) events.push(event);
+    return;
+  }
+
+  for (const child of Object.values(value)) {
+    if (typeof child === "object") collectJsonLd(child, events);
+  }
+}
+
+function extractJsonLd($: cheerio.CheerioAPI): SchemaEvent[] {
+  const events: SchemaEvent[] = [];
+
+  $('script[type="application/ld+json"]').each((_, element) => {
+    try {
+      collectJsonLd(JSON.parse($(element).text()), events);
+    } catch {
+      // Invalid JSON-LD blocks are common; the rest of the page still counts
+    }
+  });
+
+  return events;
+}
+
+// ============ Microdata ============
+
+// Properties of this item only, not of items nested inside it
+function itemProps($: cheerio.CheerioAPI, $item: Selection, prop: string): Selection {
+  return $item.find(`[itemprop~="${prop}"]`).filter((_, element) => {
+    const owner = $(element).parent().closest("[itemscope]");
+    return owner.get(0) === $item.get(0);
+  });
+}
+
+function propValue($prop: Selection): string | null {
+  if ($prop.length === 0) return null;
+  return (
+    text($prop.attr("content")) ||
+    text($prop.attr("datetime")) ||
+    text($prop.attr("href")) ||
+    text($prop.attr("src")) ||
+    text($prop.text())
+  );
+}
+
+function extractMicrodata($: cheerio.CheerioAPI): SchemaEvent[] {
+  const events: SchemaEvent[] = [];
+
+  $("[itemscope][itemtype]").each((_, element) => {
+    const $item = $(element);
+    if (!isEventType($item.attr("itemtype")?.split(/\s+/))) return;
+
+    const prop = (name: string) => propValue(itemProps($, $item, name).first());
+    const name = prop("name");
+    if (!name) return;
+
+    const $location = itemProps($, $item, "location").first();
+    const isPlace = $location.is("[itemscope]");
+    const $address = isPlace ? itemProps($, $location, "address").first() : null;
+
+    const prices = itemProps($, $item, "offers")
+      .toArray()
+      .flatMap((offer) => {
+        const $offer = $(offer);
+        if (!$offer.is("[itemscope]")) return [parsePrice(propValue($offer))];
+        return ["price", "lowPrice", "highPrice"].map((key) => parsePrice(propValue(itemProps($, $offer, key).first())));
+      })
+      .filter((price): price is number => price !== null);
+
+    events.push({
+      name,
+      description: prop("description"),
+      startDate: prop("startDate"),
+      endDate: prop("endDate"),
+      locationName: isPlace ? propValue(itemProps($, $location, "name").first()) : propValue($location),
+      address: $address ? text($address.text().replace(/\s+/g, " ")) : null,
+      prices,
+      image: prop("image"),
+      url: prop("url"),
+    });
+  });
+
+  return events;
+}
+
+export function extractSchemaEvents(html: string): SchemaEvent[] {
+  const $ = cheerio.load(html);
+  return [...extractJsonLd($), ...extractMicrodata($)];
+}
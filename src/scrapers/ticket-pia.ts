@@ -1,5 +1,6 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import type { EventDetails } from "./enrich";
 
 export class TicketPiaScraper extends BaseScraper {
   name = "Ticket Pia";
@@ -18,112 +19,121 @@ export class TicketPiaScraper extends BaseScraper {
     const events: ScrapedEvent[] = [];
 
     for (const { path, category } of this.categories) {
+      const url = `${this.baseUrl}${path}`;
       try {
-        const url = `${this.baseUrl}${path}`;
-        const html = await this.fetch(url);
-        const $ = cheerio.load(html);
-
-        // Ticket Pia typically uses list or card layouts
-        $(".event-list-item, .eventCard, .event-item, article, .search-result-item, li[class*='event']").each(
-          (_, element) => {
-            try {
-              const $el = $(element);
-
-              // Extract title
-              const titleEl = $el.find("h2, h3, .event-title, .title, a[class*='title']").first();
-              const title = titleEl.text().trim() || $el.find("a").first().text().trim();
-
-              if (!title || title.length < 2) return;
-
-              // Extract link
-              let link = titleEl.attr("href") || titleEl.find("a").attr("href") || $el.find("a").first().attr("href");
-              if (!link) return;
-
-              const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
-
-              // Skip duplicates
-              if (events.some((e) => e.source_url === fullUrl)) return;
-
-              // Extract other details
-              const dateText = $el.find(".date, .event-date, .schedule, time").text().trim();
-              const venueText = $el.find(".venue, .place, .location, .hall").text().trim();
-              const priceText = $el.find(".price, .ticket-price").text().trim();
-              const imageUrl = $el.find("img").first().attr("src") ||
-                              $el.find("img").first().attr("data-src") ||
-                              null;
-
-              // Parse Japanese date formats (e.g., "2025年1月15日", "1/15(水)")
-              let dateStart = this.parseJapaneseDate(dateText);
-              if (!dateStart) {
-                dateStart = new Date().toISOString().split("T")[0];
-              }
-
-              const area = this.detectArea(venueText || title);
-
-              // Parse price range
-              const prices = this.parsePriceRange(priceText);
-
-              events.push({
-                id: this.generateId("pia", fullUrl),
-                title_ja: title,
-                title_en: null, // Will be translated later
-                description_ja: null,
-                description_en: null,
-                date_start: dateStart,
-                date_end: null,
-                venue_name: venueText || "会場未定",
-                venue_address: null,
-                area,
-                category,
-                tags: [category, "tickets-available"],
-                price_min: prices.min,
-                price_max: prices.max,
-                source_url: fullUrl,
-                source_name: this.name,
-                image_url: imageUrl,
-              });
-            } catch (error) {
-              console.error("Error parsing Ticket Pia event:", error);
-            }
-          }
-        );
-
-        // Add delay between category requests to be respectful
-        await new Promise((resolve) => setTimeout(resolve, 500));
+        // Each category lists a page of events at a time
+        const found = await this.paginate(url, (html, pageUrl) => this.parseListing(html, pageUrl, category));
+        events.push(...found.filter((e) => !events.some((existing) => existing.source_url === e.source_url)));
       } catch (error) {
-        console.error(`Error scraping Ticket Pia category ${category}:`, error);
+        this.recordError(error, { url, context: `category ${category}` });
       }
     }
 
     return events;
   }
 
-  private parseJapaneseDate(dateStr: string): string | null {
-    if (!dateStr) return null;
+  private parseListing(html: string, url: string, category: string): ScrapedEvent[] {
+    const structured = this.extractStructuredEvents(html, url, { idPrefix: "pia", category, tags: [category, "tickets-available"] });
+    if (structured.length > 0) return structured;
 
-    // Pattern: 2025年1月15日
-    const fullMatch = dateStr.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/);
-    if (fullMatch) {
-      const [, year, month, day] = fullMatch;
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
-
-    // Pattern: 1/15 or 01/15 (assume current/next year)
-    const shortMatch = dateStr.match(/(\d{1,2})\/(\d{1,2})/);
-    if (shortMatch) {
-      const [, month, day] = shortMatch;
-      const now = new Date();
-      let year = now.getFullYear();
+    const $ = cheerio.load(html);
+    const events: ScrapedEvent[] = [];
 
-      // If month is before current month, assume next year
-      if (parseInt(month) < now.getMonth() + 1) {
-        year++;
+    // Ticket Pia typically uses list or card layouts
+    $(".event-list-item, .eventCard, .event-item, article, .search-result-item, li[class*='event']").each(
+      (_, element) => {
+        try {
+          const $el = $(element);
+
+          // Extract title
+          const titleEl = $el.find("h2, h3, .event-title, .title, a[class*='title']").first();
+          const title = titleEl.text().trim() || $el.find("a").first().text().trim();
+
+          if (!title || title.length < 2) return;
+
+          // Extract link
+          const link = titleEl.attr("href") || titleEl.find("a").attr("href") || $el.find("a").first().attr("href");
+          if (!link) return;
+
+          const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
+
+          // Skip duplicates
+          if (events.some((e) => e.source_url === fullUrl)) return;
+
+          // Extract other details
+          const dateText = $el.find(".date, .event-date, .schedule, time").text().trim();
+          const venueText = $el.find(".venue, .place, .location, .hall").text().trim();
+          const priceText = $el.find(".price, .ticket-price").text().trim();
+          const imageUrl = $el.find("img").first().attr("src") ||
+                          $el.find("img").first().attr("data-src") ||
+                          null;
+
+          // Japanese dates and runs (e.g., "2025年1月15日", "1/15(水)〜1/19(日)")
+          const dates = this.parseDateRange(dateText);
+
+          const area = this.detectArea(venueText || title);
+
+          // Parse price range and seat tiers
+          const prices = this.parsePriceRange(priceText);
+          const tiers = this.parsePriceTiers(priceText);
+          // 発売中, 予定枚数終了, 先行抽選 with its window; 公演中止/延期 badges share the spot
+          const statusText = $el.find(".status, .sale-status, .ticket-status, .icon").text();
+          const ticket = this.parseTicketStatus(statusText);
+          const status = this.parseEventStatus(`${title} ${statusText}`);
+
+          events.push({
+            id: this.generateId("pia", fullUrl),
+            title_ja: title,
+            title_en: null, // Will be translated later
+            description_ja: null,
+            description_en: null,
+            date_start: dates?.start ?? null,
+            date_end: dates?.end ?? null,
+            venue_name: venueText || "会場未定",
+            venue_address: null,
+            area,
+            category,
+            tags: [category, "tickets-available"],
+            price_min: prices.min,
+            price_max: prices.max,
+            price_tiers: tiers.length > 0 ? tiers : undefined,
+            ...ticket,
+            ...(status ? { status } : {}),
+            source_url: fullUrl,
+            source_name: this.name,
+            image_url: imageUrl,
+            raw_text: this.rawText($el.text()),
+          });
+        } catch (error) {
+          this.recordError(error, { url, context: "event item", severity: "warning" });
+        }
       }
+    );
 
-      return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
-    }
+    return events;
+  }
+
+  // Event pages have an outline, the venue's address, a 席種 price table and the sale schedule
+  protected extractDetails(html: string, event: ScrapedEvent): EventDetails {
+    const details = super.extractDetails(html, event);
+    const $ = cheerio.load(html);
+
+    const description = $(".event-detail, .event-outline, .description").first().text().trim();
+    const address = this.findAddress($(".venue-address, .access, .place-info").text());
+    const priceText = $(".price, .ticket-price, .seat-price, table:contains('席')").text();
+    const prices = this.parsePriceTable(priceText);
+    const tiers = this.parsePriceTiers(priceText);
+    const ticket = this.parseTicketStatus($(".sale-status, .ticket-status, .release-info, .sale-schedule").text());
 
-    return null;
+    return {
+      ...details,
+      description_ja: description || details.description_ja,
+      venue_address: address ?? details.venue_address,
+      price_min: prices.min ?? details.price_min,
+      price_max: prices.max ?? details.price_max,
+      price_tiers: tiers.length > 0 ? tiers : details.price_tiers,
+      ...(ticket ?? {}),
+    };
   }
 
   private parsePriceRange(priceStr: string): { min: number | null; max: number | null } {
@@ -1,5 +1,6 @@
 import * as cheerio from "cheerio";
 import { BaseScraper, ScrapedEvent } from "./base";
+import type { EventDetails } from "./enrich";
 
 export class TokyoArtBeatScraper extends BaseScraper {
   name = "Tokyo Art Beat";
@@ -20,131 +21,100 @@ export class TokyoArtBeatScraper extends BaseScraper {
         const $ = cheerio.load(html);
         const isEnglish = url.includes("/en/");
 
-        // TAB uses card layouts for exhibitions
-        $(".event-card, .exhibition-card, article, .listing-item, .event-item").each((_, element) => {
-          try {
-            const $el = $(element);
-
-            const titleEl = $el.find("h2, h3, .title, .event-title").first();
-            const title = titleEl.text().trim();
-            const link = titleEl.find("a").attr("href") || $el.find("a").first().attr("href");
-
-            if (!title || !link) return;
-
-            const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
-
-            // Skip if already added from the other language version
-            if (events.some((e) => e.source_url === fullUrl || e.title_ja === title || e.title_en === title)) {
-              // Update English title if we have it
-              if (isEnglish) {
-                const existing = events.find((e) => e.source_url === fullUrl);
-                if (existing && !existing.title_en) {
-                  existing.title_en = title;
+        const structured = this.extractStructuredEvents(html, url, {
+          idPrefix: "tab",
+          category: "art",
+          tags: ["art", "exhibition", "museum"],
+          english: isEnglish,
+        });
+        events.push(...structured);
+
+        if (structured.length === 0) {
+          // TAB uses card layouts for exhibitions
+          $(".event-card, .exhibition-card, article, .listing-item, .event-item").each((_, element) => {
+            try {
+              const $el = $(element);
+
+              const titleEl = $el.find("h2, h3, .title, .event-title").first();
+              const title = titleEl.text().trim();
+              const link = titleEl.find("a").attr("href") || $el.find("a").first().attr("href");
+
+              if (!title || !link) return;
+
+              const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
+
+              // Skip if already added from the other language version
+              if (events.some((e) => e.source_url === fullUrl || e.title_ja === title || e.title_en === title)) {
+                // Update English title if we have it
+                if (isEnglish) {
+                  const existing = events.find((e) => e.source_url === fullUrl);
+                  if (existing && !existing.title_en) {
+                    existing.title_en = title;
+                  }
                 }
+                return;
               }
-              return;
-            }
-
-            const dateText = $el.find(".date, .period, time, .event-date").text().trim();
-            const venueText = $el.find(".venue, .location, .gallery, .museum").text().trim();
-            const description = $el.find(".description, .excerpt, p").first().text().trim();
-            const imageUrl = $el.find("img").first().attr("src") ||
-                            $el.find("img").first().attr("data-src") ||
-                            null;
-
-            const dates = this.parseExhibitionDates(dateText);
-            const area = this.detectArea(venueText || title);
-
-            events.push({
-              id: this.generateId("tab", fullUrl),
-              title_ja: isEnglish ? title : title, // Will get JP version from other URL
-              title_en: isEnglish ? title : null,
-              description_ja: isEnglish ? null : description,
-              description_en: isEnglish ? description : null,
-              date_start: dates.start,
-              date_end: dates.end,
-              venue_name: venueText || "Gallery",
-              venue_address: null,
-              area,
-              category: "art",
-              tags: ["art", "exhibition", "museum"],
-              price_min: null,
-              price_max: null,
-              source_url: fullUrl,
-              source_name: this.name,
-              image_url: imageUrl,
-            });
-          } catch (error) {
-            console.error("Error parsing Tokyo Art Beat event:", error);
-          }
-        });
 
-        await new Promise((resolve) => setTimeout(resolve, 300));
+              const dateText = $el.find(".date, .period, time, .event-date").text().trim();
+              const venueText = $el.find(".venue, .location, .gallery, .museum").text().trim();
+              const description = $el.find(".description, .excerpt, p").first().text().trim();
+              const imageUrl = $el.find("img").first().attr("src") ||
+                              $el.find("img").first().attr("data-src") ||
+                              null;
+
+              const dates = this.parseDateRange(dateText);
+              const area = this.detectArea(venueText || title);
+
+              events.push({
+                id: this.generateId("tab", fullUrl),
+                title_ja: isEnglish ? title : title, // Will get JP version from other URL
+                title_en: isEnglish ? title : null,
+                description_ja: isEnglish ? null : description,
+                description_en: isEnglish ? description : null,
+                date_start: dates?.start ?? null,
+                date_end: dates?.end ?? null,
+                venue_name: venueText || "Gallery",
+                venue_address: null,
+                area,
+                category: "art",
+                tags: ["art", "exhibition", "museum"],
+                price_min: null,
+                price_max: null,
+                source_url: fullUrl,
+                source_name: this.name,
+                image_url: imageUrl,
+                raw_text: this.rawText($el.text()),
+              });
+            } catch (error) {
+              this.recordError(error, { url, context: "event card", severity: "warning" });
+            }
+          });
+        }
       } catch (error) {
-        console.error(`Error fetching Tokyo Art Beat ${url}:`, error);
+        this.recordError(error, { url, context: "events listing" });
       }
     }
 
     return events;
   }
 
-  private parseExhibitionDates(dateStr: string): { start: string; end: string | null } {
-    const now = new Date();
-    const currentYear = now.getFullYear();
-
-    // English pattern: "Jan 15 - Feb 28, 2025" or "January 15 - February 28"
-    const enRangeMatch = dateStr.match(
-      /(\w+)\s+(\d{1,2})(?:,?\s+\d{4})?\s*[-–]\s*(\w+)\s+(\d{1,2})(?:,?\s+(\d{4}))?/i
-    );
-    if (enRangeMatch) {
-      const [, startMonth, startDay, endMonth, endDay, year] = enRangeMatch;
-      const startDate = new Date(`${startMonth} ${startDay}, ${year || currentYear}`);
-      const endDate = new Date(`${endMonth} ${endDay}, ${year || currentYear}`);
-
-      if (!isNaN(startDate.getTime()) && !isNaN(endDate.getTime())) {
-        return {
-          start: startDate.toISOString().split("T")[0],
-          end: endDate.toISOString().split("T")[0],
-        };
-      }
-    }
-
-    // Japanese pattern: 2025年1月15日〜2月28日
-    const jpRangeMatch = dateStr.match(
-      /(\d{4})年(\d{1,2})月(\d{1,2})日[〜～\-–](?:(\d{4})年)?(\d{1,2})月(\d{1,2})日/
-    );
-    if (jpRangeMatch) {
-      const [, startYear, startMonth, startDay, endYear, endMonth, endDay] = jpRangeMatch;
-      return {
-        start: `${startYear}-${startMonth.padStart(2, "0")}-${startDay.padStart(2, "0")}`,
-        end: `${endYear || startYear}-${endMonth.padStart(2, "0")}-${endDay.padStart(2, "0")}`,
-      };
-    }
+  // Exhibition pages have the venue address and admission fee
+  protected extractDetails(html: string, event: ScrapedEvent): EventDetails {
+    const details = super.extractDetails(html, event);
+    const $ = cheerio.load(html);
 
-    // Single date
-    const singleMatch = dateStr.match(/(\d{4})年(\d{1,2})月(\d{1,2})日/) ||
-                       dateStr.match(/(\w+)\s+(\d{1,2}),?\s+(\d{4})/i);
-    if (singleMatch) {
-      if (singleMatch[0].includes("年")) {
-        const [, year, month, day] = singleMatch;
-        return {
-          start: `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`,
-          end: null,
-        };
-      } else {
-        const date = new Date(singleMatch[0]);
-        if (!isNaN(date.getTime())) {
-          return {
-            start: date.toISOString().split("T")[0],
-            end: null,
-          };
-        }
-      }
-    }
+    const isEnglish = event.source_url.includes("/en/");
+    const description = $(".event-description, .exhibition-description, .description").first().text().trim();
+    const address = $(".venue-address, .address").first().text().trim();
+    const prices = this.parsePriceTable($(".admission, .fee, .price").text());
 
     return {
-      start: now.toISOString().split("T")[0],
-      end: null,
+      ...details,
+      description_ja: isEnglish ? null : description || details.description_ja,
+      description_en: isEnglish ? description || details.description_ja : null,
+      venue_address: address || details.venue_address,
+      price_min: prices.min ?? details.price_min,
+      price_max: prices.max ?? details.price_max,
     };
   }
 }
@@ -8,10 +8,70 @@ export class TokyoCheapoScraper extends BaseScraper {
   async scrape(): Promise<ScrapedEvent[]> {
     const events: ScrapedEvent[] = [];
 
-    // Scrape the calendar page
+    // Scrape the calendar page and the pages after it
     const calendarUrl = `${this.baseUrl}/events/`;
-    const html = await this.fetch(calendarUrl);
+    events.push(...(await this.paginate(calendarUrl, (html, url) => this.parseListing(html, url))));
+
+    // Also try to get events from their dedicated calendar view
+    const calendarViewUrl = `${this.baseUrl}/calendar/`;
+    try {
+      const calendarHtml = await this.fetch(calendarViewUrl);
+      const $calendar = cheerio.load(calendarHtml);
+
+      $calendar(".calendar-event, .fc-event, [data-event]").each((_, element) => {
+        try {
+          const $el = $calendar(element);
+          const title = $el.text().trim() || $el.attr("title") || "";
+          const link = $el.attr("href") || $el.find("a").attr("href");
+
+          if (!title || !link) return;
+
+          const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
+
+          // Avoid duplicates
+          if (events.some(e => e.source_url === fullUrl)) return;
+
+          // Calendar entries sit inside (or carry) the day's data-date
+          const dateText = $el.attr("data-date") || $el.closest("[data-date]").attr("data-date") || "";
+
+          events.push({
+            id: this.generateId("tc", fullUrl),
+            title_ja: title,
+            title_en: title,
+            description_ja: null,
+            description_en: null,
+            date_start: this.parseDate(dateText),
+            date_end: null,
+            venue_name: "Tokyo",
+            venue_address: null,
+            area: "tokyo",
+            category: null,
+            tags: ["budget-friendly"],
+            price_min: null,
+            price_max: null,
+            source_url: fullUrl,
+            source_name: this.name,
+            image_url: null,
+            raw_text: this.rawText(`${title} ${dateText}`),
+          });
+        } catch (error) {
+          this.recordError(error, { url: calendarViewUrl, context: "calendar event", severity: "warning" });
+        }
+      });
+    } catch (error) {
+      // Calendar page might not exist or have different structure
+      this.recordError(error, { url: calendarViewUrl, context: "calendar view", severity: "warning" });
+    }
+
+    return events;
+  }
+
+  private parseListing(html: string, url: string): ScrapedEvent[] {
+    const structured = this.extractStructuredEvents(html, url, { idPrefix: "tc", tags: ["budget-friendly"], english: true });
+    if (structured.length > 0) return structured;
+
     const $ = cheerio.load(html);
+    const events: ScrapedEvent[] = [];
 
     // Find event cards - Tokyo Cheapo uses article elements for events
     $("article.post, .event-card, .tc-event").each((_, element) => {
@@ -33,9 +93,8 @@ export class TokyoCheapoScraper extends BaseScraper {
         const priceText = $el.find(".price, .event-price").text().trim();
 
         const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
-        const dateStart = this.parseDate(dateText) || new Date().toISOString().split("T")[0];
+        const dateStart = this.parseDate(dateText);
         const area = this.detectArea(venueText || title);
-        const category = this.detectCategory(title + " " + description);
 
         events.push({
           id: this.generateId("tc", fullUrl),
@@ -48,64 +107,20 @@ export class TokyoCheapoScraper extends BaseScraper {
           venue_name: venueText || "Various locations",
           venue_address: null,
           area,
-          category,
+          category: null,
           tags: ["budget-friendly"],
           price_min: this.parsePrice(priceText),
           price_max: null,
           source_url: fullUrl,
           source_name: this.name,
           image_url: imageUrl,
+          raw_text: this.rawText($el.text()),
         });
       } catch (error) {
-        console.error("Error parsing Tokyo Cheapo event:", error);
+        this.recordError(error, { url, context: "event card", severity: "warning" });
       }
     });
 
-    // Also try to get events from their dedicated calendar view
-    try {
-      const calendarHtml = await this.fetch(`${this.baseUrl}/calendar/`);
-      const $calendar = cheerio.load(calendarHtml);
-
-      $calendar(".calendar-event, .fc-event, [data-event]").each((_, element) => {
-        try {
-          const $el = $calendar(element);
-          const title = $el.text().trim() || $el.attr("title") || "";
-          const link = $el.attr("href") || $el.find("a").attr("href");
-
-          if (!title || !link) return;
-
-          const fullUrl = link.startsWith("http") ? link : `${this.baseUrl}${link}`;
-
-          // Avoid duplicates
-          if (events.some(e => e.source_url === fullUrl)) return;
-
-          events.push({
-            id: this.generateId("tc", fullUrl),
-            title_ja: title,
-            title_en: title,
-            description_ja: null,
-            description_en: null,
-            date_start: new Date().toISOString().split("T")[0],
-            date_end: null,
-            venue_name: "Tokyo",
-            venue_address: null,
-            area: "Tokyo",
-            category: this.detectCategory(title),
-            tags: ["budget-friendly"],
-            price_min: null,
-            price_max: null,
-            source_url: fullUrl,
-            source_name: this.name,
-            image_url: null,
-          });
-        } catch {
-          // Skip individual event errors
-        }
-      });
-    } catch {
-      // Calendar page might not exist or have different structure
-    }
-
     return events;
   }
 }
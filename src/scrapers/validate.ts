@@ -0,0 +1,202 @@
+/**
+ * Validation stage
+ *
+ * Runs between scraper.run() and the database. Events with a missing or
+ * implausible date, an empty venue or a junk title are kept out of the
+ * events table and recorded in quarantine with the raw source text, for
+ * review through /api/quarantine or `npm run scrape quarantine`.
+ *
+ * A reviewer's fixes are stored with the entry and reapplied whenever the
+ * source yields the same event again; discarded entries stay out.
+ */
+
+import {
+  getQuarantineEntryAsync,
+  putQuarantineSightingAsync,
+  renameEventAsync,
+  updateQuarantineReviewAsync,
+  upsertEventAsync,
+} from "@/lib/db";
+import { linkVenuesAsync } from "@/lib/venues";
+import type { ScrapedEvent } from "./base";
+import { ScraperError, toScraperError } from "./errors";
+import { classifyEventsAsync } from "./classify";
+import type { ClassifiedEvent } from "./classify";
+
+export type ValidEvent = Omit<ScrapedEvent, "date_start" | "raw_text"> & { date_start: string };
+
+// Fields a reviewer may correct
+export const FIXABLE_FIELDS = [
+  "title_ja", "title_en", "date_start", "date_end", "venue_name", "venue_address", "area", "category",
+] as const;
+
+export type QuarantineFix = Partial<Pick<ScrapedEvent, (typeof FIXABLE_FIELDS)[number]>>;
+
+// Fixable fields that may be cleared with null
+const NULLABLE_FIELDS: readonly string[] = ["title_en", "date_start", "date_end", "venue_address", "category"];
+
+export interface ScreenResult {
+  valid: ValidEvent[];
+  quarantined: number; // Rejected and awaiting review (discarded ones aren't counted)
+  errors: ScraperError[]; // Quarantine reads/writes that failed
+}
+
+// Listings keep past events around for a while, but not this long
+const MAX_PAST_DAYS = 365;
+const MAX_FUTURE_DAYS = 730;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Link text and page chrome that loose selectors pick up instead of a title
+const JUNK_TITLES =
+  /^(?:詳細|詳しくはこちら|こちら|もっと見る|一覧(?:へ|を見る)?|チケット(?:購入|情報)?|購入|予約|次へ|前へ|トップ|ホーム|more|read more|details?|view (?:all|more)|tickets?|buy|next|prev(?:ious)?|home|top)$/i;
+
+// Well-formed and a real calendar day (no 2025-02-30)
+function isIsoDate(value: string): boolean {
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !isNaN(time) && new Date(time).toISOString().startsWith(value);
+}
+
+// Reasons the event shouldn't be saved as is; empty when it's fine
+export function validateEvent(event: ScrapedEvent, today = new Date()): string[] {
+  const reasons: string[] = [];
+
+  const title = event.title_ja.trim();
+  if (title.length < 2 || JUNK_TITLES.test(title) || /^[\d\s\p{P}\p{S}]+$/u.test(title) || /^https?:\/\//.test(title)) {
+    reasons.push(`junk title "${title}"`);
+  }
+
+  if (!event.venue_name.trim()) {
+    reasons.push("empty venue");
+  }
+
+  const { date_start: start, date_end: end } = event;
+  if (!start) {
+    reasons.push("missing date");
+  } else if (!isIsoDate(start)) {
+    reasons.push(`invalid date "${start}"`);
+  } else if (end && !isIsoDate(end)) {
+    reasons.push(`invalid end date "${end}"`);
+  } else if (end && end < start) {
+    reasons.push(`ends (${end}) before it starts (${start})`);
+  } else {
+    const day = (iso: string) => Date.parse(`${iso}T00:00:00Z`);
+    const now = Date.parse(`${today.toISOString().split("T")[0]}T00:00:00Z`);
+    if (day(end ?? start) < now - MAX_PAST_DAYS * DAY_MS) {
+      reasons.push(`date ${end ?? start} is more than a year ago`);
+    } else if (day(start) > now + MAX_FUTURE_DAYS * DAY_MS) {
+      reasons.push(`date ${start} is more than two years ahead`);
+    }
+  }
+
+  return reasons;
+}
+
+// Reasons a reviewer's fix can't be applied (wrong types); empty when it can
+export function validateFix(fix: QuarantineFix): string[] {
+  const reasons: string[] = [];
+  for (const field of FIXABLE_FIELDS) {
+    const value: unknown = fix[field];
+    if (value === undefined || typeof value === "string") continue;
+    if (value === null && NULLABLE_FIELDS.includes(field)) continue;
+    reasons.push(`${field} must be a string${NULLABLE_FIELDS.includes(field) ? " or null" : ""}`);
+  }
+  return reasons;
+}
+
+function toValidEvent(event: ScrapedEvent): ValidEvent {
+  const valid = { ...event, date_start: event.date_start as string };
+  delete valid.raw_text;
+  return valid;
+}
+
+/**
+ * Split a run's events into those fit to save and those held for review.
+ * Without persistence (dry runs) rejected events are only counted.
+ */
+export async function screenEvents(source: string, events: ScrapedEvent[], persist: boolean): Promise<ScreenResult> {
+  const result: ScreenResult = { valid: [], quarantined: 0, errors: [] };
+  const seenAt = new Date().toISOString();
+
+  for (const event of events) {
+    const reasons = validateEvent(event);
+    if (reasons.length === 0) {
+      result.valid.push(toValidEvent(event));
+      continue;
+    }
+    if (!persist) {
+      result.quarantined++;
+      continue;
+    }
+
+    try {
+      let entry = await getQuarantineEntryAsync(event.id);
+      if (!entry && event.legacy_id && (await renameEventAsync(event.legacy_id, event.id))) {
+        entry = await getQuarantineEntryAsync(event.id);
+      }
+      if (entry?.status === "fixed" && entry.fixes) {
+        const fixed = { ...event, ...entry.fixes };
+        if (validateEvent(fixed).length === 0) {
+          result.valid.push(toValidEvent(fixed));
+          continue;
+        }
+      }
+
+      await putQuarantineSightingAsync({
+        event_id: event.id,
+        source,
+        event,
+        reasons,
+        raw_text: event.raw_text ?? null,
+        last_seen_at: seenAt,
+      });
+      if (entry?.status !== "discarded") result.quarantined++;
+    } catch (error) {
+      result.errors.push(
+        toScraperError(error, { kind: "persistence", context: `quarantine ${event.id}`, url: event.source_url })
+      );
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Apply a reviewer's corrections and save the event. The fixes are kept so
+ * later runs that yield the same broken event are corrected too.
+ * Returns null when there is no such quarantined event.
+ */
+export async function fixQuarantinedEvent(
+  eventId: string,
+  fix: QuarantineFix
+): Promise<{ event: ClassifiedEvent } | { reasons: string[] } | null> {
+  const entry = await getQuarantineEntryAsync(eventId);
+  if (!entry) return null;
+
+  const invalid = validateFix(fix);
+  if (invalid.length > 0) return { reasons: invalid };
+
+  const fixes: QuarantineFix = { ...entry.fixes };
+  for (const field of FIXABLE_FIELDS) {
+    if (fix[field] !== undefined) (fixes as Record<string, unknown>)[field] = fix[field];
+  }
+
+  const fixed = { ...entry.event, ...fixes };
+  const reasons = validateEvent(fixed);
+  if (reasons.length > 0) return { reasons };
+
+  const valid = toValidEvent(fixed);
+  await linkVenuesAsync([valid]);
+  const [event] = await classifyEventsAsync([valid]);
+  await upsertEventAsync(event);
+  await updateQuarantineReviewAsync(eventId, { status: "fixed", fixes });
+  return { event };
+}
+
+// Keep the event out for good; returns false when there is no such entry
+export async function discardQuarantinedEvent(eventId: string): Promise<boolean> {
+  const entry = await getQuarantineEntryAsync(eventId);
+  if (!entry) return false;
+
+  await updateQuarantineReviewAsync(eventId, { status: "discarded", fixes: entry.fixes });
+  return true;
+}